@@ -1,6 +1,6 @@
-import React, { useEffect, useState, useCallback, memo } from "react";
-import { createPublicClient, createWalletClient, custom, http } from "viem";
-import { sepolia } from "viem/chains";
+import React, { useEffect, useState, useCallback, useMemo } from "react";
+import { createPublicClient, createWalletClient, custom } from "viem";
+import type { Chain, WalletClient } from "viem";
 import {
   ResponsiveContainer,
   BarChart,
@@ -11,468 +11,2235 @@ import {
   CartesianGrid,
   LineChart,
   Line, 
-  Legend
+  Legend,
+  ComposedChart,
+  Area,
+  ReferenceLine,
 } from "recharts";
+import { MAX_UINT256, TxCancelledError, TxRevertedError, createChainBackend } from "./backend";
+import type { AmmBackend, BackendMode, Hex, TradeEvent, TxReceipt } from "./backend";
+import { SIM_ACCOUNTS, SIM_INITIAL_BALANCE, simBackend } from "./simBackend";
+import { MAX_STEPS, MECHANISMS, Mechanism, WAD, initialQ, mechName, stateFromQ } from "./lsLmsrMath";
+import type { MarketMeta, MarketState } from "./lsLmsrMath";
+import {
+  BUILTIN_SCENARIOS, CONSTANT_SCHEDULE, MAX_SCENARIO_SLOTS, downloadFile, findRangeViolation, loadSavedScenarios,
+  parseScenario, runnerSteps, scenarioFileName, storeSavedScenarios,
+} from "./scenarios";
+import type { DqSchedule, Scenario } from "./scenarios";
+import { DEFAULT_MC_CONFIG, histogram, normalize, quantile, simulatePath, summarize, validateConfig } from "./monteCarlo";
+import type { MechSummary, MonteCarloConfig, PathResult } from "./monteCarlo";
+import { settlementTable, subsidyNeeded, worstCaseLossBound } from "./settlement";
+import { MAX_AXIS_POINTS, SWEEP_METRICS, runSweep } from "./sweep";
+import type { SweepMetric, SweepParam, SweepPoint, SweepRange, SweepResult } from "./sweep";
+import { createIndexer, indexerCacheKey } from "./indexer";
+import type { Indexer, IndexerStatus } from "./indexer";
+import { lotsFromTrades, portfolioTotals, valuePosition } from "./portfolio";
+import type { MarketPosition } from "./portfolio";
+import {
+  DEFAULT_NETWORK_KEY, allNetworks, chainOf, explorerTxUrl, loadCustomNetworks, parseBroadcast, storeCustomNetworks, transportOf, validateNetwork,
+} from "./networks";
+import type { NetworkConfig } from "./networks";
+import { SIZE_TICK, fixedBHeadroom, maxBuyable, sizeBuyForBudget, sizeForTargetPrice, sizeSellForPayout } from "./tradeSizing";
+import type { SizedQuote } from "./tradeSizing";
+import { analyzeSteps, recommendK, stepError } from "./convergence";
+import type { ConvergenceResult } from "./convergence";
+import { legBound, quoteTicket } from "./tradeTicket";
+import { depthCurve } from "./depth";
+import { decodeRevert } from "./reverts";
+import type { DecodedRevert } from "./reverts";
+import type { TicketLeg, TicketQuote } from "./tradeTicket";
+import { createTxStore, settleRecord, slippageFraction } from "./txStore";
+import type { LegacyTxItem, TxFilter, TxKind, TxRecord, TxStatus, TxStore, TxSubmission } from "./txStore";
+import {
+  exportFileName, newRun, parseRun, runToJson, snapshotsToCsv, stateSnapshot, tradesToCsv, txsToCsv, txsToJson,
+} from "./runExport";
+import type { RunExport, RunParams } from "./runExport";
+import { TRAJECTORY_METRICS, trajectory } from "./trajectory";
+import type { TrajectoryMetric } from "./trajectory";
+
+/** retry sends the trade again; wait re-waits on the tx already sent */
+type StepDecision = "retry" | "wait" | "skip" | "abort";
+type StepFailure = {
+  step: number;
+  marketId: number;
+  error: DecodedRevert;
+  /** the sent tx, while it may still be mined (RPC error, timeout); null once known failed or before a send */
+  pending: TxSubmission | null;
+};
 
-type RunPoint = { step: number; p0A?: number; p0B?: number; bA?: number; bB?: number };
 type ScenarioRunnerProps = {
-  account: `0x${string}` | null;
-  walletClient: ReturnType<typeof createWalletClient> | null;
-  marketIdA: number | "";
-  marketIdB: number | "";
+  account: Hex | null;
+  backend: AmmBackend;
+  /** Market A / B ids, used when no market list is entered */
+  loadedMarkets: number[];
+  /** Execute Trade's Slippage %, used when the runner's own is empty */
+  defaultSlippagePct: number;
   stepsK: number;
+  /** ids of markets known to be closed; runs touching them are blocked */
+  closedMarkets: number[];
   onAfterEach?: () => Promise<void>;
-  onTxPush?: (t: {
-    marketId: number; side: "buy" | "sell"; hash: `0x${string}`;
-    outcome: number; qty: number; costOrPayout: number;
-  }) => void;
+  /** records the tx in the history and waits for its receipt */
+  trackTx: (sub: TxSubmission) => Promise<TxReceipt>;
+  /** network name (or "simulator"), recorded in exports */
+  network: string;
+};
+
+const SERIES_COLORS = ["#10B981", "#3B82F6", "#8B5CF6", "#F59E0B", "#EC4899", "#14B8A6", "#EF4444", "#A3E635"];
+
+/** Legend text for a market: id, mechanism and its parameters. */
+const marketLegend = (marketId: number, meta: MarketMeta) => {
+  if (meta.mech === Mechanism.LMSR) return `#${marketId} LMSR b=${fromWad(meta.b0Wad)}`;
+  const cap = meta.mech === Mechanism.LS_CAPPED && meta.bCapWad !== undefined ? ` b_max=${fromWad(meta.bCapWad)}` : "";
+  return `#${marketId} ${mechName(meta.mech)} b₀=${fromWad(meta.b0Wad)} α=${fromWad(meta.alphaWad)}${cap}`;
+};
+
+/** Quotes that don't depend on K: LMSR's b is fixed, LS-LMSR's cost is path independent. */
+const exactQuotes = (mech: number) => mech === Mechanism.LMSR || mech === Mechanism.LS_LMSR;
+
+/** One legend entry per slot, from the first snapshot of each. */
+const runLegends = (run: RunExport | null): string[] => {
+  const out: string[] = [];
+  for (const { slot, marketId, state } of run?.snapshots ?? []) out[slot] ??= marketLegend(marketId, state.meta);
+  return out;
+};
+
+const scheduleLabel = (s?: DqSchedule) =>
+  !s || s.kind === "constant" ? "constant ΔQ" : s.kind === "linear" ? `ΔQ +${s.increment}/step` : `ΔQ ×${s.ratio}/step`;
+
+/** "3, 4 #7" → [3, 4, 7]; null when the text isn't a list of ids. */
+const parseMarketList = (text: string): number[] | null => {
+  const parts = text.split(/[\s,]+/).map(x => x.replace(/^#/, "")).filter(Boolean);
+  const ids = parts.map(Number);
+  return ids.every(x => Number.isInteger(x) && x >= 0) ? [...new Set(ids)] : null;
 };
-const toPct = (x: bigint) => fromWad(x);
+
+/** a trajectory point plus the imported run's values (dashed overlay) at the same step */
+type ChartPoint = { step: number; values: (number | undefined)[]; imported: (number | undefined)[] };
+
+type RunChartProps = {
+  run: RunExport | null;
+  overlay: RunExport | null;
+  defaultMetric: TrajectoryMetric;
+};
+
+/** One Scenario Runner chart: a metric picker and a line per market (dashed for the imported run). */
+const RunChart = React.memo(function RunChart({ run, overlay, defaultMetric }: RunChartProps) {
+  const [metric, setMetric] = useState<TrajectoryMetric>(defaultMetric);
+  const [outcome, setOutcome] = useState(0);
+  const perOutcome = TRAJECTORY_METRICS.find(m => m.value === metric)!.perOutcome;
+  const outcomes = Math.max(1, ...[run, overlay].flatMap(r => r?.snapshots.map(sn => sn.state.meta.n) ?? []));
+
+  const data = useMemo(() => {
+    const byStep = new Map<number, ChartPoint>();
+    for (const p of run ? trajectory(run, metric, outcome) : []) byStep.set(p.step, { ...p, imported: [] });
+    for (const p of overlay ? trajectory(overlay, metric, outcome) : []) {
+      byStep.set(p.step, { ...(byStep.get(p.step) ?? { step: p.step, values: [] }), imported: p.values });
+    }
+    return [...byStep.values()].sort((a, b) => a.step - b.step);
+  }, [run, overlay, metric, outcome]);
+
+  const line = (name: string, slot: number, imported: boolean) => (
+    <Line
+      key={`${imported ? "i" : ""}${slot}`}
+      type="monotone"
+      dataKey={(d: ChartPoint) => (imported ? d.imported : d.values)[slot]}
+      name={imported ? `${name} (imported)` : name}
+      stroke={SERIES_COLORS[slot % SERIES_COLORS.length]}
+      strokeDasharray={imported ? "5 5" : undefined}
+      dot={false}
+      connectNulls
+      isAnimationActive={false}
+    />
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2 mb-2">
+        <Select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as TrajectoryMetric)}
+          options={TRAJECTORY_METRICS.map(m => ({ value: m.value, label: m.label }))}
+        />
+        {perOutcome && (
+          <Select
+            value={Math.min(outcome, outcomes - 1)}
+            onChange={(e) => setOutcome(Number(e.target.value))}
+            options={Array.from({ length: outcomes }, (_, i) => ({ value: i, label: `Outcome ${i}` }))}
+          />
+        )}
+        <span className="text-sm text-gray-400 pb-2">over steps</span>
+      </div>
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="step" stroke="#9CA3AF" fontSize={12} />
+            <YAxis domain={metric === "price" ? [0, 1] : ["auto", "auto"]} stroke="#9CA3AF" fontSize={12} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(v: number) => v.toFixed(4)} />
+            <Legend />
+            {runLegends(run).map((name, slot) => line(name, slot, false))}
+            {runLegends(overlay).map((name, slot) => line(name, slot, true))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
 
 const ScenarioRunner = React.memo(function ScenarioRunner(props: ScenarioRunnerProps) {
   const {
-    account, walletClient, marketIdA, marketIdB, stepsK, onAfterEach, onTxPush
+    account, backend, loadedMarkets, defaultSlippagePct, stepsK, closedMarkets, onAfterEach, trackTx, network
   } = props;
+  // markets to compare; empty = the loaded Market A / B
+  const [marketsText, setMarketsText] = useState("");
+  const typedMarkets = parseMarketList(marketsText);
+  const marketIds = marketsText.trim() && typedMarkets ? typedMarkets : loadedMarkets;
   const [label, setLabel] = useState<string>("");
   const [running, setRunning] = useState(false);
-  const [series, setSeries] = useState<RunPoint[]>([]);
-  const lastSeriesRef = React.useRef<RunPoint[] | null>(null);
-  useEffect(() => {
-    if (series.length > 0) lastSeriesRef.current = series;
-  }, [series]);
+  // how the last run ended, shown in place of "Idle"
+  const [lastStatus, setLastStatus] = useState<string | null>(null);
 
-  const dataToShow = series.length ? series : (lastSeriesRef.current ?? []);
-  const chartKey = `${dataToShow.length}-${dataToShow.at(-1)?.step ?? "x"}`;
-
-  const reset = () => {
-    lastSeriesRef.current = null;
-    setSeries([]);
+  // ---- run control: pause / resume / cancel between trades, retry / skip / abort after a failure ----
+  const gateRef = React.useRef<{ paused: boolean; cancelled: boolean; wake: (() => void) | null }>({
+    paused: false, cancelled: false, wake: null,
+  });
+  const decideRef = React.useRef<((d: StepDecision) => void) | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [failure, setFailure] = useState<StepFailure | null>(null);
+
+  /** Waits while paused; false once the run is cancelled. */
+  const checkpoint = async () => {
+    const gate = gateRef.current;
+    while (gate.paused && !gate.cancelled) await new Promise<void>(resolve => { gate.wake = resolve; });
+    return !gate.cancelled;
   };
-
-  const readState = async (mid: number) => {
-    const res = await publicClient.readContract({ address: AMM_ADDRESS, abi: AMM_ABI, functionName: "state", args: [BigInt(mid)] }) as any;
-    const [, , , bEff, prices] = res;
-    return { b: fromWad(BigInt(bEff)), p0: toPct(prices[0]) };
+  const pause = () => {
+    gateRef.current.paused = true;
+    setPaused(true);
   };
-
-  const doTrade = async (mid: number, side: "buy"|"sell", outcome: number, dQ: number, stepNo: number) => {
-    if (!walletClient || !account) throw new Error("Connect wallet");
-    const fn = side === "buy" ? "buy" : "sell";
-    const argsBase = [BigInt(mid), outcome, toWad(dQ), stepsK] as const;
+  const resume = () => {
+    gateRef.current.paused = false;
+    setPaused(false);
+    gateRef.current.wake?.();
+  };
+  const cancel = () => {
+    gateRef.current.cancelled = true;
+    setCancelling(true);
+    gateRef.current.wake?.();
+    decideRef.current?.("abort");
+  };
+  const decide = (d: StepDecision) => {
+    setFailure(null);
+    decideRef.current?.(d);
+    decideRef.current = null;
+  };
+  const askAfterFailure = (f: StepFailure) =>
+    new Promise<StepDecision>(resolve => {
+      setFailure(f);
+      decideRef.current = resolve;
+    });
+  const [runError, setRunError] = useState<DecodedRevert | null>(null);
+  // the current (or last) run: full state() at every snapshot and every trade, for charts and export
+  const [run, setRun] = useState<RunExport | null>(null);
+  // an imported run drawn dashed next to the live series
+  const [overlay, setOverlay] = useState<RunExport | null>(null);
+  const [overlayError, setOverlayError] = useState<string | null>(null);
+  const runFileRef = React.useRef<HTMLInputElement>(null);
+
+  const reset = () => setRun(null);
+
+  // ---- trade settings, recorded in the run's params ----
+  // empty = follow Execute Trade's Slippage %
+  const [slippageText, setSlippageText] = useState("");
+  const slippagePct = slippageText.trim() === "" ? defaultSlippagePct : Number(slippageText);
+  const slippageOk = Number.isFinite(slippagePct) && slippagePct >= 0 && slippagePct < 100;
+  const [schedule, setSchedule] = useState<DqSchedule>(CONSTANT_SCHEDULE);
+  const [delayMs, setDelayMs] = useState(500);
+
+  /** Quotes and sends one trade; resolves once the wallet returns its hash. */
+  const sendTrade = async (
+    mid: number, side: "buy"|"sell", outcome: number, dQ: number, stepNo: number,
+  ): Promise<TxSubmission> => {
+    if (!account) throw new Error("Connect wallet");
 
     setLabel(`Market #${mid}: ${side.toUpperCase()} o${outcome} ΔQ=${dQ} (step ${stepNo})`);
 
     if (side === "buy") {
-      const [cost] = await publicClient.readContract({
-        address: AMM_ADDRESS, abi: AMM_ABI, functionName: "quoteBuy",
-        args: [BigInt(mid), outcome, toWad(dQ), stepsK]
-      }) as [bigint, bigint[]];
-      const maxCost = (cost * 1005n) / 1000n; // +0.5% slippage
-      const hash = await walletClient.writeContract({
-        chain, address: AMM_ADDRESS, abi: AMM_ABI, functionName: fn, account, args: [...argsBase, maxCost]
-      });
-      await publicClient.waitForTransactionReceipt({ hash });
-      await sleep(500);
-      onTxPush?.({
-      marketId: mid, side: "buy", hash, outcome, qty: dQ, costOrPayout: fromWad(cost),
-    });
-    } else {
-      const [payout] = await publicClient.readContract({
-        address: AMM_ADDRESS, abi: AMM_ABI, functionName: "quoteSell",
-        args: [BigInt(mid), outcome, toWad(dQ), stepsK]
-      }) as [bigint, bigint[]];
-      const minPay = (payout * 995n) / 1000n; // -0.5% slippage
-      const hash = await walletClient.writeContract({
-        chain, address: AMM_ADDRESS, abi: AMM_ABI, functionName: fn, account, args: [...argsBase, minPay]
-      });
-      await publicClient.waitForTransactionReceipt({ hash });
-      await sleep(500);
-      onTxPush?.({
-        marketId: mid, side: "sell", hash, outcome, qty: dQ, costOrPayout: fromWad(payout),
-      });
+      const [cost] = await backend.quoteBuy(mid, outcome, toWad(dQ), stepsK);
+      const maxCost = legBound("buy", cost, slippagePct);
+      const hash = await backend.buy(account, mid, outcome, toWad(dQ), stepsK, maxCost);
+      return { hash, kind: "buy", from: account, marketId: mid, outcome, dQWad: toWad(dQ), quotedWad: cost, boundWad: maxCost };
     }
+    const [payout] = await backend.quoteSell(mid, outcome, toWad(dQ), stepsK);
+    const minPay = legBound("sell", payout, slippagePct);
+    const hash = await backend.sell(account, mid, outcome, toWad(dQ), stepsK, minPay);
+    return { hash, kind: "sell", from: account, marketId: mid, outcome, dQWad: toWad(dQ), quotedWad: payout, boundWad: minPay };
   };
 
-  const ensureAllowance = async () => {
-    if (!walletClient || !account) throw new Error("Connect wallet");
+  /** Waits for a sent trade and adds it to the run; throws if it reverts, is cancelled or times out. */
+  const settleTrade = async (sub: TxSubmission, slot: number, stepNo: number) => {
+    const receipt = await trackTx(sub);
+    const { actualWad, slippageWad, blockNumber, gasUsed } = settleRecord(sub, receipt);
+    const trade = { ...sub, step: stepNo, slot, actualWad, slippageWad, blockNumber, gasUsed };
+    setRun(prev => prev && { ...prev, trades: [...prev.trades, trade] });
+    await sleep(delayMs);
+  };
 
-    // read collateral token from AMM
-    const collateral = await publicClient.readContract({
-      address: AMM_ADDRESS,
-      abi: AMM_ABI,
-      functionName: "collateralToken",
-    }) as `0x${string}`;
+  const ensureAllowance = async () => {
+    if (!account) throw new Error("Connect wallet");
 
     // current allowance
-    const current = await publicClient.readContract({
-      address: collateral,
-      abi: ERC20_ABI,
-      functionName: "allowance",
-      args: [account, AMM_ADDRESS],
-    }) as bigint;
+    const current = await backend.allowance(account);
 
     if (current === 0n) {
       setLabel("Approving collateral…");
-      const hash = await walletClient.writeContract({
-        chain,
-        address: collateral,
-        abi: ERC20_ABI,
-        functionName: "approve",
-        account,
-        args: [AMM_ADDRESS, 2n ** 256n - 1n], // max
-      });
-      await publicClient.waitForTransactionReceipt({ hash });
+      const hash = await backend.approve(account, MAX_UINT256);
+      await trackTx({ hash, kind: "approve", from: account });
     }
   };
 
-  // helper to snapshot A/B
+  // helper to snapshot every slot
   const sleep = (ms:number)=>new Promise(r=>setTimeout(r,ms));
 
-  const snapshot = async (step: number) => {
+  const snapshot = async (slots: number[], step: number) => {
     try {
-      const pt: RunPoint = { step };
-
-      if (marketIdA !== "") {
-        const sA = await readState(Number(marketIdA));
-        pt.p0A = sA.p0; pt.bA = sA.b;
-      }
-      if (marketIdB !== "") { 
-        const sB = await readState(Number(marketIdB));
-        pt.p0B = sB.p0; pt.bB = sB.b;
-      }
-
-      // simple sanity: at least one finite value
-      const hasValue = [pt.p0A, pt.p0B, pt.bA, pt.bB].some(v => Number.isFinite(v));
-      if (hasValue) {
-        console.log("snapshot -> pushing point", pt);  
-        setSeries(prev => [...prev, pt]);
-      } else {
-        console.warn("snapshot -> skipped empty point", pt);
-      }
+      const states = await Promise.all(slots.map(mid => backend.state(mid)));
+      const snaps = states.map((state, slot) => ({ step, slot, marketId: slots[slot], state }));
+      setRun(prev => prev && { ...prev, snapshots: [...prev.snapshots, ...snaps] });
     } catch (e) {
       console.error("snapshot failed", e);
       setLabel(`Snapshot error: ${(e as Error).message}`);
     }
   };
 
-  // Scenario 1: two-phase same-outcome accumulation
-  const runSameOutcomePhases = async () => {
-    if (marketIdA === "" && marketIdB === "") return alert("Load at least one market");
-    setRunning(true); reset();
-    await ensureAllowance();
-    await snapshot(0);
-
-    // Phase 1: five buys of ΔQ=1 on outcome 0
-    for (let k = 1; k <= 5; k++) {
-      if (marketIdA !== "") await doTrade(Number(marketIdA), "buy", 0, 1, k);
-      if (marketIdB !== "") await doTrade(Number(marketIdB), "buy", 0, 1, k);
-      if (onAfterEach) await onAfterEach();
-      await snapshot(k);
+  // Replays a scenario: every step trades in each of its market slots, then snapshots
+  const runScenario = async (sc: Scenario) => {
+    const slots = marketIds;
+    if (slots.length === 0) return alert("Load a market, or list the markets to compare");
+    if (slots.length > MAX_SCENARIO_SLOTS) return alert(`At most ${MAX_SCENARIO_SLOTS} markets per run`);
+    const unused = sc.steps.flatMap(st => st.markets ?? []).find(slot => slot >= slots.length);
+    if (unused !== undefined) return alert(`The scenario trades in slot ${unused}, but only ${slots.length} markets are listed`);
+    let states;
+    try {
+      states = await Promise.all(slots.map(mid => backend.state(mid)));
+    } catch (e) {
+      setRunError(decodeRevert(e));
+      return;
+    }
+    const closedAt = states.findIndex(s => s.meta.closed);
+    if (closedAt >= 0) return alert(`Market #${slots[closedAt]} is closed`);
+    // block runs that would hit ExpInputTooLarge part-way through
+    let steps;
+    try {
+      steps = runnerSteps(sc, schedule);
+    } catch (e) {
+      setRunError(decodeRevert(e));
+      return;
+    }
+    const over = findRangeViolation(sc, states, stepsK, schedule);
+    if (over) {
+      const message =
+        `Step ${over.step} buys ${over.dQ} of outcome ${over.outcome} in market #${slots[over.slot]}, ` +
+        `but only ${over.maxBuy.toFixed(6)} can be bought there at that point before exp() overflows.`;
+      setRunError({ name: "ExpInputTooLarge", message, fix: "Lower that step's ΔQ, or use a market with a larger b₀.", raw: message });
+      return;
     }
-    // Phase 2: five more buys of ΔQ=1
-    for (let k = 6; k <= 10; k++) {
-      if (marketIdA !== "") await doTrade(Number(marketIdA), "buy", 0, 1, k);
-      if (marketIdB !== "") await doTrade(Number(marketIdB), "buy", 0, 1, k);
-      if (onAfterEach) await onAfterEach();
-      await snapshot(k);
+    setRunning(true); reset(); setRunError(null); setLastStatus(null);
+    gateRef.current = { paused: false, cancelled: false, wake: null };
+    setPaused(false); setCancelling(false);
+    setRun(newRun(sc.name, sc, runParams(slots)));
+    const skipped: string[] = [];
+    let stoppedAt: { step: number; why: string } | null = null;
+    try {
+      await ensureAllowance();
+      await snapshot(slots, 0);
+
+      run: for (let k = 1; k <= steps.length; k++) {
+        const st = steps[k - 1];
+        for (const slot of st.markets ?? slots.map((_, i) => i)) {
+          if (!(await checkpoint())) {
+            stoppedAt = { step: k, why: "cancelled" };
+            break run;
+          }
+          // a failed trade waits for the user: retry it, skip it, or abort the run. A sent tx
+          // is kept until it is known reverted or cancelled; until then the step can only wait
+          // on it again, since sending a second one could trade twice.
+          let sent: TxSubmission | null = null;
+          for (;;) {
+            try {
+              sent ??= await sendTrade(slots[slot], st.side, st.outcome, st.dQ, k);
+              await settleTrade(sent, slot, k);
+              break;
+            } catch (e) {
+              if (e instanceof TxRevertedError || e instanceof TxCancelledError) sent = null;
+              const d = gateRef.current.cancelled
+                ? "abort"
+                : await askAfterFailure({ step: k, marketId: slots[slot], error: decodeRevert(e), pending: sent });
+              if (d === "wait") continue;
+              if (d === "retry") {
+                sent = null;
+                continue;
+              }
+              if (d === "skip") {
+                skipped.push(`step ${k} #${slots[slot]}${sent ? ` (tx ${sent.hash} unsettled)` : ""}`);
+                break;
+              }
+              stoppedAt = { step: k, why: gateRef.current.cancelled ? "cancelled" : "aborted after a failed trade" };
+              break run;
+            }
+          }
+        }
+        if (onAfterEach) await onAfterEach();
+        if (st.snapshot !== false) await snapshot(slots, k);
+      }
+      // the series so far stays on the charts and in the export
+      setLastStatus(
+        (stoppedAt
+          ? `Stopped at step ${stoppedAt.step} of ${steps.length} (${stoppedAt.why}); the partial series is kept.`
+          : `Finished ${steps.length} steps.`) +
+          (skipped.length ? ` Skipped: ${skipped.join(", ")}.` : ""),
+      );
+    } catch (e) {
+      // setup, refresh or snapshot failures end the run; the partial series is kept
+      setRunError(decodeRevert(e));
+      setLastStatus("Run stopped by an error; the partial series is kept.");
+    } finally {
+      setRunning(false);
+      setFailure(null);
+      decideRef.current = null;
     }
-    setRunning(false);
   };
 
-  // Scenario 2: alternating outcomes (0,1,0,1,0,1)
-  const runAlternating = async () => {
-    if (marketIdA === "" && marketIdB === "") return alert("Load at least one market");
-    setRunning(true); reset();
-    await ensureAllowance();
-    await snapshot(0);
-    const seq = [0, 1, 0, 1, 0, 1];
-    let step = 0;
-    for (const out of seq) {
-      step++;
-      if (marketIdA !== "") await doTrade(Number(marketIdA), "buy", out, 1, step);
-      if (marketIdB !== "") await doTrade(Number(marketIdB), "buy", out, 1, step);
-      if (onAfterEach) await onAfterEach();
-      await snapshot(step);
+  const runParams = (slots: number[]): RunParams => ({
+    network,
+    ammAddress: backend.ammAddress,
+    stepsK,
+    slippagePct,
+    marketIds: slots,
+    schedule,
+    delayMs,
+  });
+
+  // ---- export / import of runs ----
+  const exportRun = (what: "json" | "states" | "trades") => {
+    if (!run) return;
+    if (what === "json") downloadFile(exportFileName(run.name, "json"), runToJson(run));
+    else if (what === "states") downloadFile(exportFileName(run.name, "csv", "-states"), snapshotsToCsv(run), "text/csv");
+    else downloadFile(exportFileName(run.name, "csv", "-trades"), tradesToCsv(run), "text/csv");
+  };
+
+  const importRun = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setOverlay(parseRun(await file.text()));
+      setOverlayError(null);
+    } catch (err) {
+      setOverlayError(`${file.name}: ${(err as Error).message}`);
     }
-    setRunning(false);
   };
 
-  // Scenario 3: Round-trip — buy then sell back the same amounts
-  const runRoundTrip = async () => {
-    if (marketIdA === "" && marketIdB === "") return alert("Load at least one market");
-    setRunning(true); reset();
-    await ensureAllowance();
-    await snapshot(0);
-
-    // Phase 1: accumulate — five buys ΔQ=1 on outcome 0
-    for (let k = 1; k <= 5; k++) {
-      if (marketIdA !== "") await doTrade(Number(marketIdA), "buy", 0, 1, k);
-      if (marketIdB !== "") await doTrade(Number(marketIdB), "buy", 0, 1, k);
-      if (onAfterEach) await onAfterEach();
-      await snapshot(k);
+  // ---- scenario editor ----
+  const [saved, setSaved] = useState<Scenario[]>(loadSavedScenarios);
+  const [editorText, setEditorText] = useState(() => JSON.stringify(BUILTIN_SCENARIOS[0], null, 2));
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  const parseEditor = (): Scenario | null => {
+    try {
+      const sc = parseScenario(editorText);
+      setEditorError(null);
+      return sc;
+    } catch (e) {
+      setEditorError((e as Error).message);
+      return null;
+    }
+  };
+
+  const loadIntoEditor = (name: string) => {
+    const sc = [...BUILTIN_SCENARIOS, ...saved].find(x => x.name === name);
+    if (sc) {
+      setEditorText(JSON.stringify(sc, null, 2));
+      setEditorError(null);
     }
+  };
+
+  const saveEditor = () => {
+    const sc = parseEditor();
+    if (!sc) return;
+    if (BUILTIN_SCENARIOS.some(x => x.name === sc.name)) return setEditorError(`"${sc.name}" is a built-in name`);
+    const next = [...saved.filter(x => x.name !== sc.name), sc];
+    storeSavedScenarios(next);
+    setSaved(next);
+  };
 
-    // Phase 2: unwind — five sells ΔQ=1 on outcome 0 (requires holdings from Phase 1)
-    for (let k = 6; k <= 10; k++) {
-      if (marketIdA !== "") await doTrade(Number(marketIdA), "sell", 0, 1, k);
-      if (marketIdB !== "") await doTrade(Number(marketIdB), "sell", 0, 1, k);
-      if (onAfterEach) await onAfterEach();
-      await snapshot(k);
+  const deleteSaved = () => {
+    const sc = parseEditor();
+    if (!sc) return;
+    const next = saved.filter(x => x.name !== sc.name);
+    storeSavedScenarios(next);
+    setSaved(next);
+  };
+
+  const exportEditor = () => {
+    const sc = parseEditor();
+    if (sc) downloadFile(scenarioFileName(sc), JSON.stringify(sc, null, 2));
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const sc = parseScenario(await file.text());
+      setEditorText(JSON.stringify(sc, null, 2));
+      setEditorError(null);
+    } catch (err) {
+      setEditorError(`${file.name}: ${(err as Error).message}`);
     }
+  };
 
-    setRunning(false);
+  const runEditor = () => {
+    const sc = parseEditor();
+    if (sc) runScenario(sc);
   };
 
+  const closedSlots = marketIds.filter(id => closedMarkets.includes(id));
+  // debug footer: p₀ and bEff of the last few points
+  const prices = run ? trajectory(run, "price", 0) : [];
+  const bEffs = run ? trajectory(run, "bEff", 0) : [];
+  const lastPoints = prices.slice(-5).map(p => ({ ...p, b: bEffs.find(x => x.step === p.step)?.values ?? [] }));
+  const blocked = running || closedSlots.length > 0 || !slippageOk;
+
   return (
     <Card className="mb-6">
       <h2 className="text-xl font-semibold mb-3 text-purple-300">Scenario Runner</h2>
+      <TxErrorNotice error={runError} onDismiss={() => setRunError(null)} />
+      {closedSlots.length > 0 && (
+        <div className="text-sm text-red-400 mb-3">
+          Market {closedSlots.map(id => `#${id}`).join(", ")} closed — scenarios are disabled.
+        </div>
+      )}
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div className="w-72">
+          <Input
+            label="Markets to compare"
+            value={marketsText}
+            onChange={(e) => setMarketsText(e.target.value)}
+            placeholder={loadedMarkets.length ? `${loadedMarkets.map(id => `#${id}`).join(", ")} (loaded)` : "e.g. 3, 4, 5, 6"}
+            disabled={running}
+          />
+        </div>
+        <div className="text-xs text-gray-400 pb-2">
+          {marketsText.trim() && !typedMarkets
+            ? <span className="text-red-400">List market ids separated by commas.</span>
+            : `${marketIds.length} market${marketIds.length === 1 ? "" : "s"}; slot i is the i-th id (max ${MAX_SCENARIO_SLOTS}).`}
+        </div>
+      </div>
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div className="w-40">
+          <Input
+            label="Slippage %"
+            type="number"
+            value={slippageText}
+            onChange={(e) => setSlippageText(e.target.value)}
+            placeholder={`${defaultSlippagePct} (Execute Trade)`}
+            step="0.1"
+            min={0}
+            disabled={running}
+          />
+        </div>
+        <Select
+          label="ΔQ schedule"
+          value={schedule.kind}
+          onChange={(e) => {
+            const kind = e.target.value as DqSchedule["kind"];
+            setSchedule(
+              kind === "linear" ? { kind, increment: 0.5 } : kind === "geometric" ? { kind, ratio: 1.5 } : CONSTANT_SCHEDULE,
+            );
+          }}
+          options={[
+            { value: "constant", label: "Constant" },
+            { value: "linear", label: "Linear ramp" },
+            { value: "geometric", label: "Geometric" },
+          ]}
+          disabled={running}
+        />
+        {schedule.kind === "linear" && (
+          <div className="w-32">
+            <Input
+              label="+ΔQ per step"
+              type="number"
+              value={schedule.increment}
+              onChange={(e) => setSchedule({ kind: "linear", increment: Number(e.target.value) })}
+              step="0.1"
+              disabled={running}
+            />
+          </div>
+        )}
+        {schedule.kind === "geometric" && (
+          <div className="w-32">
+            <Input
+              label="× per step"
+              type="number"
+              value={schedule.ratio}
+              onChange={(e) => setSchedule({ kind: "geometric", ratio: Number(e.target.value) })}
+              step="0.1"
+              min={0}
+              disabled={running}
+            />
+          </div>
+        )}
+        <div className="w-32">
+          <Input
+            label="Delay (ms)"
+            type="number"
+            value={delayMs}
+            onChange={(e) => setDelayMs(Math.max(0, Number(e.target.value)))}
+            step="100"
+            min={0}
+            disabled={running}
+          />
+        </div>
+        <div className="text-xs text-gray-400 pb-2">
+          {!slippageOk
+            ? <span className="text-red-400">Slippage must be in [0, 100).</span>
+            : `Step k trades ${
+              schedule.kind === "constant" ? "the scenario's ΔQ"
+                : schedule.kind === "linear" ? `ΔQ + (k − 1) × ${schedule.increment}`
+                  : `ΔQ × ${schedule.ratio}^(k − 1)`
+            }; ${delayMs} ms between trades.`}
+        </div>
+      </div>
       <div className="flex flex-wrap gap-3 mb-4">
-        <Button onClick={runSameOutcomePhases} disabled={running} variant="secondary">
-          Same Outcome ×10 (ΔQ=1)
-        </Button>
-        <Button onClick={runAlternating} disabled={running} variant="secondary">
-          Alternating Outcomes (0↔1)
-        </Button>
-        <Button onClick={runRoundTrip} disabled={running} variant="secondary">
-          Round-Trip (Buy then Sell)
-        </Button>
+        {BUILTIN_SCENARIOS.map(sc => (
+          <Button key={sc.name} onClick={() => runScenario(sc)} disabled={blocked} variant="secondary">
+            {sc.name}
+          </Button>
+        ))}
         <Button onClick={reset} disabled={running} variant="danger">
           Reset Plots
         </Button>
       </div>
 
-      <div className="text-sm text-gray-400 mb-3">
-        {running ? (label || "Submitting and waiting for confirmations…") : "Idle"}
-      </div>
-
-      {(
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <div>
-            <div className="text-sm text-gray-400 mb-2">p₀ over steps</div>
-            <div className="h-56">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={dataToShow} key={`p0-${chartKey}`}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                  <XAxis dataKey="step" stroke="#9CA3AF" fontSize={12} />
-                  <YAxis domain={[0, 1]} stroke="#9CA3AF" fontSize={12} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: "#1F2937", border: "1px solid #374151", borderRadius: "8px" }}
-                    formatter={(v: number) => v.toFixed(4)}
-                  />
-                  <Legend />
-                  <Line type="monotone" dataKey="p0A" name="A:p0" dot={false} connectNulls isAnimationActive={false} />
-                  <Line type="monotone" dataKey="p0B" name="B:p0" dot={false} connectNulls isAnimationActive={false} />
-                </LineChart>
-              </ResponsiveContainer>
+      <details className="mb-4 bg-gray-900 rounded-lg p-4">
+        <summary className="cursor-pointer text-sm font-medium text-gray-300">Custom scenario</summary>
+        <div className="mt-3 grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2">
+            <textarea
+              value={editorText}
+              onChange={(e) => setEditorText(e.target.value)}
+              spellCheck={false}
+              rows={12}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            {editorError && <div className="mt-1 text-xs text-red-400">{editorError}</div>}
+          </div>
+          <div className="flex flex-col gap-3">
+            <Select
+              label="Load definition"
+              value=""
+              onChange={(e) => loadIntoEditor(e.target.value)}
+              options={[
+                { value: "", label: "Choose…" },
+                ...BUILTIN_SCENARIOS.map(x => ({ value: x.name, label: `${x.name} (built-in)` })),
+                ...saved.map(x => ({ value: x.name, label: x.name })),
+              ]}
+            />
+            <Button onClick={runEditor} disabled={blocked}>Run Scenario</Button>
+            <div className="grid grid-cols-2 gap-2">
+              <Button onClick={saveEditor} variant="secondary">Save</Button>
+              <Button onClick={deleteSaved} variant="secondary">Delete</Button>
+              <Button onClick={exportEditor} variant="secondary">Export</Button>
+              <Button onClick={() => fileRef.current?.click()} variant="secondary">Import</Button>
+            </div>
+            <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={importFile} />
+            <div className="text-xs text-gray-400">
+              Steps: <code>{"{ side, outcome, dQ, markets?, repeat?, snapshot? }"}</code>; markets are slots in the
+              market list above (0 = first).
             </div>
           </div>
+        </div>
+      </details>
 
-          <div>
-            <div className="text-sm text-gray-400 mb-2">b(T) over steps</div>
-            <div className="h-56">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={dataToShow} key={`b-${chartKey}`}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                  <XAxis dataKey="step" stroke="#9CA3AF" fontSize={12} />
-                  <YAxis stroke="#9CA3AF" fontSize={12} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: "#1F2937", border: "1px solid #374151", borderRadius: "8px" }}
-                    formatter={(v: number) => v.toFixed(4)}
-                  />
-                  <Legend />
-                  <Line type="monotone" dataKey="bA"  name="A:bEff" dot={false} connectNulls isAnimationActive={false} />
-                  <Line type="monotone" dataKey="bB"  name="B:bEff" dot={false} connectNulls isAnimationActive={false} />
-                </LineChart>
-              </ResponsiveContainer>
+      <div className="text-sm text-gray-400 mb-3">
+        {running
+          ? cancelling
+            ? "Cancelling after the current trade…"
+            : paused
+              ? `Paused — ${label || "before the first trade"}`
+              : (label || "Submitting and waiting for confirmations…")
+          : (lastStatus ?? "Idle")}
+      </div>
+      {running && (
+        <div className="flex flex-wrap gap-3 mb-4">
+          {paused ? (
+            <Button onClick={resume} disabled={cancelling || failure !== null}>Resume</Button>
+          ) : (
+            <Button onClick={pause} disabled={cancelling || failure !== null} variant="secondary">Pause</Button>
+          )}
+          <Button onClick={cancel} disabled={cancelling} variant="danger">Cancel run</Button>
+        </div>
+      )}
+      {failure && (
+        <div className="mb-4">
+          <div className="text-sm text-red-300 mb-1">
+            Step {failure.step} failed in market #{failure.marketId}. Earlier steps went through.
+          </div>
+          {failure.pending && (
+            <div className="text-sm text-yellow-300 mb-1">
+              Its tx <span className="font-mono break-all">{failure.pending.hash}</span> may still be mined; wait for it
+              again, or skip the trade. Retry unlocks once the tx is known reverted or cancelled.
             </div>
+          )}
+          <TxErrorNotice error={failure.error} />
+          <div className="flex flex-wrap gap-3">
+            {failure.pending && <Button onClick={() => decide("wait")}>Wait for tx</Button>}
+            <Button onClick={() => decide("retry")} disabled={failure.pending !== null}>Retry step</Button>
+            <Button onClick={() => decide("skip")} variant="secondary">Skip trade</Button>
+            <Button onClick={() => decide("abort")} variant="danger">Abort run</Button>
           </div>
         </div>
       )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <span className="text-gray-400">Run data:</span>
+        <Button onClick={() => exportRun("json")} disabled={!run} variant="secondary">Export JSON</Button>
+        <Button onClick={() => exportRun("states")} disabled={!run} variant="secondary">States CSV</Button>
+        <Button onClick={() => exportRun("trades")} disabled={!run} variant="secondary">Trades CSV</Button>
+        <Button onClick={() => runFileRef.current?.click()} variant="secondary">Import run</Button>
+        {overlay && <Button onClick={() => setOverlay(null)} variant="secondary">Clear overlay</Button>}
+        <input ref={runFileRef} type="file" accept="application/json,.json,text/csv,.csv" className="hidden" onChange={importRun} />
+      </div>
+      {overlayError && <div className="text-xs text-red-400 mb-3">{overlayError}</div>}
+      {overlay && (
+        <div className="text-xs text-gray-400 mb-3">
+          Overlay (dashed): <span className="text-gray-200">{overlay.name}</span> — {overlay.params.network}, K=
+          {overlay.params.stepsK}, slippage {overlay.params.slippagePct}%, {scheduleLabel(overlay.params.schedule)}, markets{" "}
+          {overlay.params.marketIds.map(m => (m === null ? "—" : `#${m}`)).join(" / ")},{" "}
+          {overlay.snapshots.length} snapshots, {overlay.trades.length} trades
+          {overlay.exportedAt && `, exported ${new Date(overlay.exportedAt).toLocaleString()}`}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <RunChart run={run} overlay={overlay} defaultMetric="price" />
+        <RunChart run={run} overlay={overlay} defaultMetric="bEff" />
+      </div>
       <div className="mt-3 text-xs text-gray-400 font-mono">
-        <div>points: {dataToShow.length}</div>
+        <div>points: {prices.length} · trades: {run?.trades.length ?? 0}</div>
         <div>
-          {dataToShow.slice(-5).map(p => 
+          {lastPoints.map(p =>
             <div key={`dbg-${p.step}`}>
-              step {p.step} — A: p0={p.p0A?.toFixed?.(4)} b={p.bA?.toFixed?.(4)} | 
-              B: p0={p.p0B?.toFixed?.(4)} b={p.bB?.toFixed?.(4)}
+              step {p.step} — {p.values.map((p0, slot) => (
+                `#${run?.params.marketIds[slot] ?? slot}: p0=${p0?.toFixed(4)} b=${p.b[slot]?.toFixed(4)}`
+              )).join(" | ")}
             </div>
           )}
         </div>
-      </div>
+      </div>
+    </Card>
+  );
+});
+
+const TOOLTIP_STYLE = { backgroundColor: "#1F2937", border: "1px solid #374151", borderRadius: "8px" };
+const fmtTooltip = (v: number | string | (number | string)[]) =>
+  Array.isArray(v) ? v.map(x => Number(x).toFixed(4)).join(" – ") : Number(v).toFixed(4);
+
+const MonteCarloPanel = React.memo(function MonteCarloPanel() {
+  const [cfg, setCfg] = useState<MonteCarloConfig>(DEFAULT_MC_CONFIG);
+  const [probsText, setProbsText] = useState(DEFAULT_MC_CONFIG.trueProbs.join(", "));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<{ cfg: MonteCarloConfig; lmsr: MechSummary; ls: MechSummary } | null>(null);
+  const [fanOutcome, setFanOutcome] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const num = (k: keyof MonteCarloConfig) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setCfg(c => ({ ...c, [k]: Number(e.target.value) }));
+  const agentNum = (k: keyof MonteCarloConfig["agents"]) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setCfg(c => ({ ...c, agents: { ...c.agents, [k]: Math.max(0, Math.floor(Number(e.target.value))) } }));
+
+  const run = async () => {
+    const trueProbs = probsText.split(",").map(x => Number(x.trim()));
+    const invalid = validateConfig({ ...cfg, trueProbs });
+    setError(invalid);
+    if (invalid) return;
+    const c = { ...cfg, trueProbs: normalize(trueProbs) };
+    const lmsr: PathResult[] = [], ls: PathResult[] = [];
+    setProgress(0);
+    for (let p = 0; p < c.paths; p++) {
+      lmsr.push(simulatePath(c, 0, p));
+      ls.push(simulatePath(c, 1, p));
+      if (p % 5 === 4) {
+        setProgress((p + 1) / c.paths);
+        await new Promise(r => setTimeout(r, 0)); // keep the page responsive
+      }
+    }
+    setResult({ cfg: c, lmsr: summarize(c, lmsr), ls: summarize(c, ls) });
+    setFanOutcome(o => Math.min(o, c.trueProbs.length - 1));
+    setProgress(null);
+  };
+
+  const stats = (xs: number[]) => {
+    const sorted = [...xs].sort((a, b) => a - b);
+    return { mean: xs.reduce((a, b) => a + b, 0) / (xs.length || 1), p5: quantile(sorted, 0.05), p95: quantile(sorted, 0.95) };
+  };
+
+  const errorData = result?.lmsr.errorByRound.map((e, r) => ({ round: r, LMSR: e, "LS-PROXY": result.ls.errorByRound[r] })) ?? [];
+  const pnlHist = result ? histogram({ LMSR: result.lmsr.mmPnl, "LS-PROXY": result.ls.mmPnl }) : [];
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold mb-3 text-purple-300">Monte Carlo Agent Simulation</h2>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
+        <Input label="True probabilities" value={probsText} onChange={(e) => setProbsText(e.target.value)} />
+        <Input label="b₀" type="number" value={cfg.b0} onChange={num("b0")} step="0.1" />
+        <Input label="α (LS-PROXY)" type="number" value={cfg.alpha} onChange={num("alpha")} step="0.01" />
+        <Input label="Steps (K)" type="number" value={cfg.steps} onChange={num("steps")} min={1} max={64} />
+        <Input label="Rounds" type="number" value={cfg.rounds} onChange={num("rounds")} min={1} />
+        <Input label="Paths" type="number" value={cfg.paths} onChange={num("paths")} min={1} />
+        <Input label="Noise traders" type="number" value={cfg.agents.noise} onChange={agentNum("noise")} min={0} />
+        <Input label="Informed traders" type="number" value={cfg.agents.informed} onChange={agentNum("informed")} min={0} />
+        <Input label="Momentum traders" type="number" value={cfg.agents.momentum} onChange={agentNum("momentum")} min={0} />
+        <Input label="Trade size (ΔQ)" type="number" value={cfg.tradeSize} onChange={num("tradeSize")} step="0.1" />
+        <Input label="Signal noise σ" type="number" value={cfg.signalNoise} onChange={num("signalNoise")} step="0.01" />
+        <Input label="Seed" type="number" value={cfg.seed} onChange={num("seed")} />
+      </div>
+      {error && <div className="text-red-400 text-sm mb-3">{error}</div>}
+      <Button onClick={run} disabled={progress !== null} className="w-full">
+        {progress !== null ? `Simulating… ${(progress * 100).toFixed(0)}%` : "Run Monte Carlo"}
+      </Button>
+
+      {result && (
+        <>
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left p-2 text-gray-400">Mechanism</th>
+                  <th className="text-right p-2 text-gray-400">Final mean |p − p*|</th>
+                  <th className="text-right p-2 text-gray-400">MM P&amp;L mean</th>
+                  <th className="text-right p-2 text-gray-400">MM P&amp;L 5% / 95%</th>
+                  <th className="text-right p-2 text-gray-400">Avg price impact</th>
+                  <th className="text-right p-2 text-gray-400">Trades (rejected)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {([["LMSR", result.lmsr], ["LS-PROXY", result.ls]] as const).map(([name, m]) => {
+                  const pnl = stats(m.mmPnl);
+                  return (
+                    <tr key={name} className="border-b border-gray-700 font-mono">
+                      <td className="p-2 font-sans">{name}</td>
+                      <td className="p-2 text-right">{m.errorByRound.at(-1)?.toFixed(4)}</td>
+                      <td className={`p-2 text-right ${pnl.mean >= 0 ? "text-green-400" : "text-red-400"}`}>{pnl.mean.toFixed(4)}</td>
+                      <td className="p-2 text-right">{pnl.p5.toFixed(3)} / {pnl.p95.toFixed(3)}</td>
+                      <td className="p-2 text-right">{m.avgImpact.toFixed(5)}</td>
+                      <td className="p-2 text-right">{m.trades} ({m.rejected})</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-end gap-3 mt-6 mb-2">
+            <Select
+              label="Fan chart outcome"
+              value={fanOutcome}
+              onChange={(e) => setFanOutcome(Number(e.target.value))}
+              options={result.cfg.trueProbs.map((p, i) => ({ value: i, label: `Outcome ${i} (p* = ${p.toFixed(3)})` }))}
+            />
+            <div className="text-xs text-gray-400 pb-2">Bands: 10–90% and 25–75% of paths; dashed line is p*.</div>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {([["LMSR", result.lmsr], ["LS-PROXY", result.ls]] as const).map(([name, m]) => (
+              <div key={name}>
+                <div className="text-sm text-gray-400 mb-2">{name}: p{fanOutcome} over rounds</div>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={m.fan[fanOutcome]}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                      <XAxis dataKey="round" stroke="#9CA3AF" fontSize={12} />
+                      <YAxis domain={[0, 1]} stroke="#9CA3AF" fontSize={12} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} formatter={fmtTooltip} />
+                      <Area dataKey="outer" name="10–90%" stroke="none" fill="#8B5CF6" fillOpacity={0.2} isAnimationActive={false} />
+                      <Area dataKey="inner" name="25–75%" stroke="none" fill="#8B5CF6" fillOpacity={0.4} isAnimationActive={false} />
+                      <Line dataKey="median" name="median" stroke="#C4B5FD" dot={false} isAnimationActive={false} />
+                      <Line dataKey="truth" name="p*" stroke="#FBBF24" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            ))}
+
+            <div>
+              <div className="text-sm text-gray-400 mb-2">Mean |p − p*| over rounds</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={errorData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="round" stroke="#9CA3AF" fontSize={12} />
+                    <YAxis stroke="#9CA3AF" fontSize={12} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={fmtTooltip} />
+                    <Legend />
+                    <Line dataKey="LMSR" stroke="#34D399" dot={false} isAnimationActive={false} />
+                    <Line dataKey="LS-PROXY" stroke="#60A5FA" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <div className="text-sm text-gray-400 mb-2">Market-maker P&amp;L at resolution (paths per bin)</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={pnlHist}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="bin" stroke="#9CA3AF" fontSize={12} />
+                    <YAxis stroke="#9CA3AF" fontSize={12} allowDecimals={false} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Legend />
+                    <Bar dataKey="LMSR" fill="#34D399" isAnimationActive={false} />
+                    <Bar dataKey="LS-PROXY" fill="#60A5FA" isAnimationActive={false} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+});
+
+const SWEEP_PARAMS: { value: SweepParam; label: string }[] = [
+  { value: "b0", label: "b₀" },
+  { value: "alpha", label: "α" },
+  { value: "n", label: "Outcomes (n)" },
+  { value: "size", label: "Trade size (ΔQ)" },
+];
+
+const SweepExplorer = React.memo(function SweepExplorer({ onPick }: { onPick: (p: SweepPoint) => void }) {
+  const [base, setBase] = useState<SweepPoint>({ mech: 1, n: 3, b0: 5, alpha: 0.1, size: 2, steps: 16 });
+  const [xParam, setXParam] = useState<SweepParam>("b0");
+  const [yParam, setYParam] = useState<SweepParam>("alpha");
+  const [xRange, setXRange] = useState<SweepRange>({ from: 1, to: 20, count: 8 });
+  const [yRange, setYRange] = useState<SweepRange>({ from: 0, to: 0.5, count: 6 });
+  const [metric, setMetric] = useState<SweepMetric>("cost");
+  const [result, setResult] = useState<SweepResult | null>(null);
+
+  const label = (p: SweepParam) => SWEEP_PARAMS.find(x => x.value === p)!.label;
+  const fixed = SWEEP_PARAMS.filter(x => x.value !== xParam && x.value !== yParam);
+
+  const run = () => {
+    if (xParam === yParam) return alert("Pick two different axes");
+    setResult(runSweep(base, xParam, xRange, yParam, yRange));
+  };
+
+  const values = result?.cells.flat().flatMap(c => (c.metrics ? [c.metrics[metric]] : [])) ?? [];
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const color = (v: number) => {
+    const t = hi > lo ? (v - lo) / (hi - lo) : 0.5;
+    return `hsl(${260 - t * 220}, 70%, ${25 + t * 25}%)`;
+  };
+
+  const rangeInputs = (r: SweepRange, set: (r: SweepRange) => void, name: string) => (
+    <div className="grid grid-cols-3 gap-2">
+      <Input label={`${name} from`} type="number" value={r.from} onChange={(e) => set({ ...r, from: Number(e.target.value) })} step="0.1" />
+      <Input label="to" type="number" value={r.to} onChange={(e) => set({ ...r, to: Number(e.target.value) })} step="0.1" />
+      <Input label="cells" type="number" value={r.count} onChange={(e) => set({ ...r, count: Number(e.target.value) })} min={1} max={MAX_AXIS_POINTS} />
+    </div>
+  );
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold mb-3 text-purple-300">Parameter Sweep Explorer</h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <Select
+          label="Mechanism"
+          value={base.mech}
+          onChange={(e) => setBase({ ...base, mech: Number(e.target.value) as 0 | 1 })}
+          options={[
+            { value: 0, label: "LMSR (Fixed b)" },
+            { value: 1, label: "LS-PROXY (Dynamic b)" },
+          ]}
+        />
+        <Select label="X axis" value={xParam} onChange={(e) => setXParam(e.target.value as SweepParam)} options={SWEEP_PARAMS} />
+        <Select label="Y axis" value={yParam} onChange={(e) => setYParam(e.target.value as SweepParam)} options={SWEEP_PARAMS} />
+        <Input label="Steps (K)" type="number" value={base.steps} onChange={(e) => setBase({ ...base, steps: Number(e.target.value) })} min={1} max={64} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {rangeInputs(xRange, setXRange, label(xParam))}
+        {rangeInputs(yRange, setYRange, label(yParam))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        {fixed.map(f => (
+          <Input
+            key={f.value}
+            label={`${f.label} (fixed)`}
+            type="number"
+            value={base[f.value]}
+            onChange={(e) => setBase({ ...base, [f.value]: Number(e.target.value) })}
+            step="0.1"
+          />
+        ))}
+        <Select
+          label="Heatmap metric"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as SweepMetric)}
+          options={Object.entries(SWEEP_METRICS).map(([value, l]) => ({ value, label: l }))}
+        />
+        <div className="flex items-end">
+          <Button onClick={run} className="w-full">Run Sweep</Button>
+        </div>
+      </div>
+
+      {result && (
+        <div className="overflow-x-auto">
+          <div className="text-sm text-gray-400 mb-2">
+            {SWEEP_METRICS[metric]} — rows: {label(result.yParam)}, columns: {label(result.xParam)}. Click a cell to prefill Create New Market.
+          </div>
+          <table className="text-xs font-mono border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th className="p-1 text-gray-400">{label(result.yParam)} \ {label(result.xParam)}</th>
+                {result.xs.map(x => <th key={x} className="p-1 text-gray-400">{+x.toFixed(4)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {result.cells.map((row, yi) => (
+                <tr key={yi}>
+                  <th className="p-1 text-gray-400 text-right">{+result.ys[yi].toFixed(4)}</th>
+                  {row.map((c, xi) => (
+                    <td
+                      key={xi}
+                      onClick={() => onPick(c.point)}
+                      title={c.metrics
+                        ? Object.entries(c.metrics).map(([k, v]) => `${SWEEP_METRICS[k as SweepMetric]}: ${v.toFixed(6)}`).join("\n")
+                        : c.error}
+                      className="px-2 py-1 text-center rounded cursor-pointer hover:ring-2 hover:ring-white"
+                      style={{ backgroundColor: c.metrics ? color(c.metrics[metric]) : "#374151" }}
+                    >
+                      {c.metrics ? c.metrics[metric].toFixed(3) : "×"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Event history ----------
+type EventHistoryProps = {
+  indexer: Indexer;
+  account: Hex | null;
+  /** explorer link for a tx, null when the network has no explorer */
+  txUrl: (hash: Hex) => string | null;
+  onPickMarket: (id: number) => void;
+};
+
+const EventHistory = React.memo(function EventHistory({ indexer, account, txUrl, onPickMarket }: EventHistoryProps) {
+  const [status, setStatus] = useState<IndexerStatus>(() => indexer.status());
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<{ marketId: string; trader: string; fromBlock: string; toBlock: string }>({
+    marketId: "", trader: "", fromBlock: "", toBlock: "",
+  });
+
+  // a wallet or network switch hands us a new indexer: show its progress, not the old one's
+  const indexerRef = React.useRef(indexer);
+  useEffect(() => {
+    indexerRef.current = indexer;
+    setStatus(indexer.status());
+    setError(null);
+    setSyncing(false);
+  }, [indexer]);
+
+  const sync = async () => {
+    const ix = indexer;
+    const current = () => indexerRef.current === ix;
+    setSyncing(true);
+    setError(null);
+    try {
+      const s = await ix.sync((p) => current() && setStatus(p));
+      if (current()) setStatus(s);
+    } catch (e) {
+      if (current()) setError((e as Error).message);
+    } finally {
+      if (current()) setSyncing(false);
+    }
+  };
+
+  const clear = () => {
+    indexer.clear();
+    setStatus(indexer.status());
+  };
+
+  // the indexer holds the cache; re-querying on every render keeps it in step with syncs
+  const trades = indexer.trades({
+    ...(filter.marketId !== "" && { marketId: Number(filter.marketId) }),
+    ...(filter.trader !== "" && { trader: filter.trader as Hex }),
+    ...(/^\d+$/.test(filter.fromBlock) && { fromBlock: BigInt(filter.fromBlock) }),
+    ...(/^\d+$/.test(filter.toBlock) && { toBlock: BigInt(filter.toBlock) }),
+  });
+  const markets = indexer.markets();
+
+  const set = (k: keyof typeof filter) => (e: React.ChangeEvent<HTMLInputElement>) => setFilter({ ...filter, [k]: e.target.value });
+  const short = (h: string) => `${h.slice(0, 6)}…${h.slice(-4)}`;
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-semibold text-purple-300">Event History</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-400">
+            {status.indexedTo === null
+              ? `Not indexed yet (from block ${status.startBlock})`
+              : `Indexed to block ${status.indexedTo}${status.latest !== null ? ` of ${status.latest}` : ""} · ${status.events} events`}
+            {!status.persisted && " · too large for localStorage, kept in memory"}
+          </span>
+          <Button onClick={sync} disabled={syncing}>{syncing ? "Syncing…" : "Sync"}</Button>
+          <Button onClick={clear} variant="secondary" disabled={syncing}>Clear Cache</Button>
+        </div>
+      </div>
+      {error && <div className="text-red-400 text-sm mb-3">{error}</div>}
+
+      {markets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {markets.map((m) => (
+            <button
+              key={m.marketId}
+              onClick={() => onPickMarket(m.marketId)}
+              title={`b0=${fromWad(m.b0Wad)} α=${fromWad(m.alphaWad)}`}
+              className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+            >
+              #{m.marketId} {mechName(m.mech)} n={m.n} · {m.trades} trades{m.closed ? " · closed" : ""}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <Input label="Market ID" type="number" value={filter.marketId} onChange={set("marketId")} placeholder="any" />
+        <div>
+          <Input label="Trader" value={filter.trader} onChange={set("trader")} placeholder="0x… (any)" />
+          {account && (
+            <button onClick={() => setFilter({ ...filter, trader: account })} className="text-xs text-blue-400 underline mt-1">
+              mine
+            </button>
+          )}
+        </div>
+        <Input label="From block" type="number" value={filter.fromBlock} onChange={set("fromBlock")} placeholder="any" />
+        <Input label="To block" type="number" value={filter.toBlock} onChange={set("toBlock")} placeholder="any" />
+      </div>
+
+      {trades.length === 0 ? (
+        <div className="text-gray-400 text-sm">No indexed trades match.</div>
+      ) : (
+        <div className="max-h-80 overflow-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="p-2 text-left text-gray-400">Block</th>
+                <th className="p-2 text-left text-gray-400">Market</th>
+                <th className="p-2 text-left text-gray-400">Trader</th>
+                <th className="p-2 text-left text-gray-400">Type</th>
+                <th className="p-2 text-right text-gray-400">ΔQ</th>
+                <th className="p-2 text-right text-gray-400">Cost / Payout</th>
+                <th className="p-2 text-right text-gray-400">T after</th>
+                <th className="p-2 text-right text-gray-400">b after</th>
+                <th className="p-2 text-left text-gray-400">Tx</th>
+              </tr>
+            </thead>
+            <tbody>
+              {/* newest first, capped so a long history stays responsive */}
+              {trades.slice(-200).reverse().map((t) => (
+                <tr key={`${t.txHash}:${t.logIndex}`} className="border-b border-gray-800 font-mono text-xs">
+                  <td className="p-2">{t.blockNumber.toString()}</td>
+                  <td className="p-2">#{t.marketId}</td>
+                  <td className="p-2" title={t.trader}>{short(t.trader)}</td>
+                  <td className="p-2">
+                    <span className={t.isBuy ? "text-green-400" : "text-red-400"}>{t.isBuy ? "BUY" : "SELL"}</span> o{t.outcome}
+                  </td>
+                  <td className="p-2 text-right">{fromWad(t.dQWad).toFixed(4)}</td>
+                  <td className="p-2 text-right">{fromWad(t.costWad).toFixed(6)}</td>
+                  <td className="p-2 text-right">{fromWad(t.tAfterWad).toFixed(4)}</td>
+                  <td className="p-2 text-right">{fromWad(t.bAfterWad).toFixed(4)}</td>
+                  <td className="p-2">
+                    {txUrl(t.txHash) === null ? (
+                      <span className="text-gray-400" title={t.txHash}>{short(t.txHash)}</span>
+                    ) : (
+                      <a
+                        href={txUrl(t.txHash)!}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-400 underline"
+                      >
+                        {short(t.txHash)}
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {trades.length > 200 && (
+            <div className="text-xs text-gray-500 mt-2">Showing the latest 200 of {trades.length} trades.</div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Live updates ----------
+type LiveFeedProps = {
+  /** incoming trades, newest first */
+  feed: TradeEvent[];
+  /** block the loaded market states were read at */
+  updatedBlock: bigint | null;
+  live: boolean;
+  onLiveChange: (on: boolean) => void;
+  pauseWhileQuoting: boolean;
+  onPauseWhileQuotingChange: (on: boolean) => void;
+  /** updates are held back (live off, or a quote is on screen) */
+  paused: boolean;
+  /** events on Market A / B since the last refresh */
+  missed: number;
+  watched: number[];
+  error: string | null;
+  onRefresh: () => void;
+  txUrl: (hash: Hex) => string | null;
+};
+
+const LiveFeedPanel = React.memo(function LiveFeedPanel(props: LiveFeedProps) {
+  const {
+    feed, updatedBlock, live, onLiveChange, pauseWhileQuoting, onPauseWhileQuotingChange,
+    paused, missed, watched, error, onRefresh, txUrl,
+  } = props;
+  const short = (h: string) => `${h.slice(0, 6)}…${h.slice(-4)}`;
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h2 className="text-xl font-semibold text-purple-300">Live Trades</h2>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={live} onChange={(e) => onLiveChange(e.target.checked)} />
+            Live updates
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={pauseWhileQuoting} onChange={(e) => onPauseWhileQuotingChange(e.target.checked)} />
+            Pause while a quote is shown
+          </label>
+          <Button onClick={onRefresh} variant="secondary">Refresh now</Button>
+        </div>
+      </div>
+      <div className="text-sm mb-3">
+        <span className="text-gray-400">Market data updated at block </span>
+        <span className="font-mono">{updatedBlock === null ? "—" : updatedBlock.toString()}</span>
+        {paused ? (
+          <span className="text-yellow-400">
+            {" "}· paused{missed > 0 ? ` — ${missed} new event${missed === 1 ? "" : "s"} on the loaded markets since then` : ""}
+          </span>
+        ) : (
+          <span className="text-green-400"> · live</span>
+        )}
+      </div>
+      {error && <div className="text-red-400 text-sm mb-3">Subscription error: {error}</div>}
+
+      {feed.length === 0 ? (
+        <div className="text-gray-500 text-sm">No trades since this page was opened.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-64 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left p-2">Block</th>
+                <th className="text-left p-2">Market</th>
+                <th className="text-left p-2">Trader</th>
+                <th className="text-left p-2">Trade</th>
+                <th className="text-right p-2">ΔQ</th>
+                <th className="text-right p-2">Cost / Payout</th>
+                <th className="text-left p-2">Tx</th>
+              </tr>
+            </thead>
+            <tbody>
+              {feed.map((t) => (
+                <tr
+                  key={`${t.txHash}:${t.logIndex}`}
+                  className={`border-b border-gray-800 font-mono text-xs ${watched.includes(t.marketId) ? "" : "text-gray-500"}`}
+                >
+                  <td className="p-2">{t.blockNumber.toString()}</td>
+                  <td className="p-2">#{t.marketId}</td>
+                  <td className="p-2" title={t.trader}>{short(t.trader)}</td>
+                  <td className="p-2">
+                    <span className={t.isBuy ? "text-green-400" : "text-red-400"}>{t.isBuy ? "BUY" : "SELL"}</span> o{t.outcome}
+                  </td>
+                  <td className="p-2 text-right">{fromWad(t.dQWad).toFixed(4)}</td>
+                  <td className="p-2 text-right">{fromWad(t.costWad).toFixed(6)}</td>
+                  <td className="p-2">
+                    {txUrl(t.txHash) === null ? (
+                      <span className="text-gray-400" title={t.txHash}>{short(t.txHash)}</span>
+                    ) : (
+                      <a href={txUrl(t.txHash)!} target="_blank" rel="noreferrer" className="text-blue-400 underline">
+                        {short(t.txHash)}
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Transactions ----------
+type TransactionsProps = {
+  store: TxStore;
+  /** bumped by the store on every write */
+  version: number;
+  txUrl: (hash: Hex) => string | null;
+  /** network name, recorded in exports */
+  network: string;
+  /** why the history can't be read or written (IndexedDB unavailable, failed resume) */
+  error: string | null;
+};
+
+const TX_STATUSES: TxStatus[] = ["pending", "confirmed", "reverted", "replaced", "dropped"];
+const TX_KINDS: TxKind[] = ["buy", "sell", "create", "close", "approve", "mint"];
+
+const txHistoryError = (e: unknown) => `Transaction history unavailable: ${(e as Error).message}`;
+
+const TX_STATUS_COLORS: Record<TxStatus, string> = {
+  pending: "text-yellow-400",
+  confirmed: "text-green-400",
+  reverted: "text-red-400",
+  replaced: "text-blue-400",
+  dropped: "text-gray-500",
+};
+
+const TX_KIND_COLORS: Partial<Record<TxKind, string>> = {
+  buy: "text-green-400", sell: "text-red-400", close: "text-gray-400",
+};
+
+const TransactionsPanel = React.memo(function TransactionsPanel({ store, version, txUrl, network, error }: TransactionsProps) {
+  const [status, setStatus] = useState<TxStatus | "">("");
+  const [kind, setKind] = useState<TxKind | "">("");
+  const [market, setMarket] = useState<number | "">("");
+  const [records, setRecords] = useState<TxRecord[]>([]);
+  const [listError, setListError] = useState<string | null>(null);
+  const short = (h: string) => `${h.slice(0, 6)}…${h.slice(-4)}`;
+
+  useEffect(() => {
+    let stale = false;
+    const filter: TxFilter = {
+      status: status || undefined,
+      kind: kind || undefined,
+      marketId: market === "" ? undefined : market,
+    };
+    store.list(filter).then(
+      (r) => { if (!stale) { setRecords(r); setListError(null); } },
+      (e) => { if (!stale) setListError(`Could not read the history: ${(e as Error).message}`); },
+    );
+    return () => { stale = true; };
+  }, [store, version, status, kind, market]);
+
+  const link = (h: Hex) =>
+    txUrl(h) === null ? (
+      <span className="text-gray-400" title={h}>{short(h)}</span>
+    ) : (
+      <a href={txUrl(h)!} target="_blank" rel="noreferrer" className="text-blue-400 underline" title={h}>{short(h)}</a>
+    );
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-end justify-between gap-3 mb-3">
+        <h2 className="text-xl font-semibold text-purple-300">Transactions</h2>
+        <div className="flex flex-wrap items-end gap-3">
+          <Select
+            label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as TxStatus | "")}
+            options={[{ value: "", label: "All" }, ...TX_STATUSES.map((x) => ({ value: x, label: x }))]}
+          />
+          <Select
+            label="Type"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as TxKind | "")}
+            options={[{ value: "", label: "All" }, ...TX_KINDS.map((x) => ({ value: x, label: x }))]}
+          />
+          <Input
+            label="Market"
+            type="number"
+            value={market}
+            onChange={(e) => setMarket(e.target.value === "" ? "" : Number(e.target.value))}
+            placeholder="any"
+          />
+          <Button
+            onClick={() => downloadFile(exportFileName("transactions", "csv"), txsToCsv(network, records), "text/csv")}
+            disabled={records.length === 0}
+            variant="secondary"
+          >
+            Export CSV
+          </Button>
+          <Button
+            onClick={() => downloadFile(exportFileName("transactions", "json"), txsToJson(network, records))}
+            disabled={records.length === 0}
+            variant="secondary"
+          >
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      {(error ?? listError) && <div className="text-red-400 text-sm mb-3">{error ?? listError}</div>}
+      {records.length === 0 ? (
+        <div className="text-gray-400 text-sm">No transactions{status || kind || market !== "" ? " match the filters" : " yet"}.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 border-b border-gray-700">
+                <th className="text-left p-2">When</th>
+                <th className="text-left p-2">Type</th>
+                <th className="text-left p-2">Market</th>
+                <th className="text-left p-2">Trade</th>
+                <th className="text-right p-2">Quoted</th>
+                <th className="text-right p-2">Actual</th>
+                <th className="text-right p-2">Slippage</th>
+                <th className="text-left p-2">Status</th>
+                <th className="text-right p-2">Block</th>
+                <th className="text-right p-2">Gas</th>
+                <th className="text-right p-2">Fee (ETH)</th>
+                <th className="text-left p-2">Tx</th>
+              </tr>
+            </thead>
+            <tbody>
+              {records.map((t) => {
+                const slip = slippageFraction(t);
+                return (
+                  <tr key={t.hash} className="border-b border-gray-800 font-mono text-xs">
+                    <td className="p-2 font-sans">{new Date(t.submittedAt).toLocaleString()}</td>
+                    <td className={`p-2 ${TX_KIND_COLORS[t.kind] ?? "text-blue-400"}`}>{t.kind.toUpperCase()}</td>
+                    <td className="p-2">{t.marketId === undefined ? "—" : `#${t.marketId}`}</td>
+                    <td className="p-2">
+                      {t.outcome === undefined ? "—" : `o${t.outcome} ΔQ=${fromWad(t.dQWad)}`}
+                    </td>
+                    <td className="p-2 text-right">{t.quotedWad === undefined ? "—" : fromWad(t.quotedWad).toFixed(6)}</td>
+                    <td className="p-2 text-right">{t.actualWad === undefined ? "—" : fromWad(t.actualWad).toFixed(6)}</td>
+                    <td className={`p-2 text-right ${slip !== null && slip > 0 ? "text-yellow-400" : ""}`}>
+                      {slip === null ? "—" : `${(slip * 100).toFixed(3)}%`}
+                    </td>
+                    <td className={`p-2 font-sans ${TX_STATUS_COLORS[t.status]}`} title={t.error}>
+                      {t.status}
+                      {t.replacedBy && <span className="text-gray-400"> → {link(t.replacedBy)}</span>}
+                    </td>
+                    <td className="p-2 text-right">{t.blockNumber?.toString() ?? "—"}</td>
+                    <td className="p-2 text-right">{t.gasUsed?.toString() ?? "—"}</td>
+                    <td className="p-2 text-right">
+                      {t.gasUsed === undefined || t.effectiveGasPrice === undefined
+                        ? "—"
+                        : fromWad(t.gasUsed * t.effectiveGasPrice).toFixed(8)}
+                    </td>
+                    <td className="p-2">{link(t.hash)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="text-xs text-gray-500 mt-2">
+        Slippage is what the fill cost you against the quote (actual − quoted on buys, quoted − actual on sells), from the
+        tx&apos;s Trade event.
+      </div>
+    </Card>
+  );
+});
+
+// ---------- Portfolio ----------
+type PortfolioPanelProps = {
+  backend: AmmBackend;
+  indexer: Indexer;
+  account: Hex | null;
+  /** market ids to check besides the indexed ones (e.g. recent markets) */
+  knownMarkets: number[];
+};
+
+const PortfolioPanel = React.memo(function PortfolioPanel({ backend, indexer, account, knownMarkets }: PortfolioPanelProps) {
+  const [positions, setPositions] = useState<MarketPosition[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!account) return alert("Connect wallet first");
+    setLoading(true);
+    setWarning(null);
+    try {
+      // trade history drives the cost basis; fall back to the cached history if the RPC fails
+      try {
+        await indexer.sync();
+      } catch (e) {
+        setWarning(`Event sync failed, using cached history: ${(e as Error).message}`);
+      }
+      const lots = lotsFromTrades(indexer.tradesByTrader(account));
+      const ids = [...new Set([...indexer.markets().map((m) => m.marketId), ...knownMarkets])].sort((a, b) => a - b);
+      const all = await Promise.all(ids.map(async (id) => {
+        try {
+          const s = await backend.state(id);
+          const shares = await Promise.all(Array.from({ length: s.meta.n }, (_, o) => backend.userShares(id, account, o)));
+          return [valuePosition(id, s, shares, lots)];
+        } catch {
+          return [];
+        }
+      }));
+      setPositions(all.flat().filter((p) => p.rows.some((r) => r.shares > 0n || r.realized !== 0n)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totals = portfolioTotals(positions);
+  const pnlClass = (x: bigint) => (x > 0n ? "text-green-400" : x < 0n ? "text-red-400" : "");
+  const fmt = (x: bigint, d = 4) => fromWad(x).toFixed(d);
+
+  return (
+    <Card className="mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-xl font-semibold text-purple-300">Portfolio</h2>
+        <Button onClick={load} disabled={loading || !account}>{loading ? "Loading…" : "Refresh Portfolio"}</Button>
+      </div>
+      {warning && <div className="text-yellow-400 text-sm mb-3">{warning}</div>}
+
+      {positions.length === 0 ? (
+        <div className="text-gray-400 text-sm">
+          {account ? "No positions loaded — click Refresh Portfolio." : "Connect a wallet to see its positions."}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+            {([
+              ["Mark value", totals.markValue, false],
+              ["Cost basis", totals.costBasis, false],
+              ["Unrealized P&L", totals.unrealized, true],
+              ["Realized P&L", totals.realized, true],
+              ["Total P&L", totals.unrealized + totals.realized, true],
+            ] as const).map(([label, v, signed]) => (
+              <div key={label} className="bg-gray-900 rounded-lg p-3">
+                <div className="text-xs text-gray-400">{label}</div>
+                <div className={`font-mono ${signed ? pnlClass(v) : ""}`}>{fmt(v)} mUSD</div>
+              </div>
+            ))}
+          </div>
+
+          {positions.map((p) => (
+            <div key={p.marketId} className="mb-4">
+              <div className="flex flex-wrap items-baseline gap-3 mb-1">
+                <h3 className="font-semibold">
+                  Market #{p.marketId} ({mechName(p.state.meta.mech)}){p.state.meta.closed ? " · closed" : ""}
+                </h3>
+                {!p.historyComplete && (
+                  <span className="text-xs text-yellow-400">Trade history doesn't match holdings — sync Event History for an exact cost basis.</span>
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-700">
+                      <th className="p-2 text-left text-gray-400">Outcome</th>
+                      <th className="p-2 text-right text-gray-400">Shares</th>
+                      <th className="p-2 text-right text-gray-400">Price</th>
+                      <th className="p-2 text-right text-gray-400">Mark Value</th>
+                      <th className="p-2 text-right text-gray-400">Cost Basis</th>
+                      <th className="p-2 text-right text-gray-400">Unrealized</th>
+                      <th className="p-2 text-right text-gray-400">Realized</th>
+                      <th className="p-2 text-right text-gray-400">Value if Wins</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {p.rows.map((r) => (
+                      <tr key={r.outcome} className="border-b border-gray-800 font-mono text-xs">
+                        <td className="p-2">{r.outcome}</td>
+                        <td className="p-2 text-right">{fmt(r.shares)}</td>
+                        <td className="p-2 text-right">{fmt(r.price, 6)}</td>
+                        <td className="p-2 text-right">{fmt(r.markValue)}</td>
+                        <td className="p-2 text-right">{fmt(r.costBasis)}</td>
+                        <td className={`p-2 text-right ${pnlClass(r.unrealized)}`}>{fmt(r.unrealized)}</td>
+                        <td className={`p-2 text-right ${pnlClass(r.realized)}`}>{fmt(r.realized)}</td>
+                        <td className="p-2 text-right">
+                          {fmt(p.settlementValues[r.outcome])}
+                          <span className={`ml-2 ${pnlClass(p.settlementValues[r.outcome] - p.costBasis)}`}>
+                            ({fmt(p.settlementValues[r.outcome] - p.costBasis)})
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+          <div className="text-xs text-gray-500">
+            Cost basis uses average cost per outcome from your indexed trades. "Value if Wins" is the payout if that outcome
+            resolves (1 mUSD per share), with the P&L against the market's cost basis in brackets.
+          </div>
+        </>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Depth curves ----------
+type DepthPanelProps = {
+  stateA: MarketState | null;
+  stateB: MarketState | null;
+  marketIdA: number | "";
+  marketIdB: number | "";
+  stepsK: number;
+};
+
+const DEPTH_METRICS = [
+  { key: "totalCost", label: "Total cost vs ΔQ (payout < 0 on sells)" },
+  { key: "avgPrice", label: "Average price vs ΔQ" },
+  { key: "marginalPrice", label: "Marginal price vs ΔQ (p_i after)" },
+] as const;
+
+const DepthPanel = React.memo(function DepthPanel({ stateA, stateB, marketIdA, marketIdB, stepsK }: DepthPanelProps) {
+  const [maxSize, setMaxSize] = useState(10);
+  const [points, setPoints] = useState(20);
+  const [outcome, setOutcome] = useState<"all" | number>("all");
+
+  const markets = useMemo(() => {
+    const list: { tag: "A" | "B"; id: number | ""; s: MarketState }[] = [];
+    if (stateA) list.push({ tag: "A", id: marketIdA, s: stateA });
+    if (stateB) list.push({ tag: "B", id: marketIdB, s: stateB });
+    return list;
+  }, [stateA, stateB, marketIdA, marketIdB]);
+
+  const n = Math.max(0, ...markets.map(m => m.s.meta.n));
+  const outcomes = outcome === "all" ? Array.from({ length: n }, (_, i) => i) : [outcome];
+
+  // one row per signed ΔQ; both markets use the same grid, so the curves line up
+  const { rows, series } = useMemo(() => {
+    const byDq = new Map<number, Record<string, number>>();
+    const series: { key: string; name: string; color: string; dashed: boolean }[] = [];
+    if (!(maxSize > 0) || points < 1) return { rows: [], series };
+    const k = Math.min(Math.round(points), 100);
+    for (const m of markets) {
+      for (let i = 0; i < m.s.meta.n; i++) {
+        const key = `${m.tag}${i}`;
+        series.push({
+          key,
+          name: `${m.tag} #${m.id} ${mechName(m.s.meta.mech)} o${i}`,
+          color: SERIES_COLORS[i % SERIES_COLORS.length],
+          dashed: m.tag === "B",
+        });
+        for (const pt of depthCurve(m.s, i, maxSize, k, stepsK)) {
+          const row = byDq.get(pt.dQ) ?? { dQ: pt.dQ };
+          row[`${key}:totalCost`] = pt.totalCost;
+          row[`${key}:avgPrice`] = pt.avgPrice;
+          row[`${key}:marginalPrice`] = pt.marginalPrice;
+          byDq.set(pt.dQ, row);
+        }
+      }
+    }
+    return { rows: [...byDq.values()].sort((a, b) => a.dQ - b.dQ), series };
+  }, [markets, maxSize, points, stepsK]);
+
+  const shown = series.filter(sr => outcomes.includes(Number(sr.key.slice(1))));
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold mb-3 text-purple-300">Price Impact &amp; Depth</h2>
+      <div className="text-sm text-gray-400 mb-4">
+        One trade of size ΔQ in a single outcome, quoted from the current state with K = {stepsK}. ΔQ &gt; 0 buys,
+        ΔQ &lt; 0 sells (down to q_i). Market A is solid, Market B dashed.
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Input label="Max size (ΔQ)" type="number" value={maxSize} onChange={(e) => setMaxSize(Number(e.target.value))} step="1" min={0} />
+        <Input label="Points per side" type="number" value={points} onChange={(e) => setPoints(Number(e.target.value))} min={1} max={100} />
+        <Select
+          label="Outcome"
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value === "all" ? "all" : Number(e.target.value))}
+          options={[
+            { value: "all", label: "All outcomes" },
+            ...Array.from({ length: n }, (_, i) => ({ value: i, label: `Outcome ${i}` })),
+          ]}
+        />
+      </div>
+
+      {markets.length === 0 ? (
+        <div className="text-gray-500">Load Market A and/or Market B to plot depth curves.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {DEPTH_METRICS.map(metric => (
+            <div key={metric.key}>
+              <div className="text-sm text-gray-400 mb-2">{metric.label}</div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={rows}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="dQ" type="number" domain={["dataMin", "dataMax"]} stroke="#9CA3AF" fontSize={12} />
+                    <YAxis
+                      domain={metric.key === "totalCost" ? ["auto", "auto"] : [0, 1]}
+                      stroke="#9CA3AF"
+                      fontSize={12}
+                      tickFormatter={(v: number) => v.toFixed(2)}
+                    />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={fmtTooltip} labelFormatter={(v) => `ΔQ ${v}`} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    <ReferenceLine x={0} stroke="#6B7280" />
+                    {shown.map(sr => (
+                      <Line
+                        key={sr.key}
+                        type="monotone"
+                        dataKey={`${sr.key}:${metric.key}`}
+                        name={sr.name}
+                        stroke={sr.color}
+                        strokeDasharray={sr.dashed ? "5 5" : undefined}
+                        dot={false}
+                        connectNulls={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Step-count convergence ----------
+type StepConvergenceProps = {
+  state: MarketState | null;
+  marketId: number | "";
+  onUseK: (k: number) => void;
+};
+
+const StepConvergencePanel = React.memo(function StepConvergencePanel({ state, marketId, onUseK }: StepConvergenceProps) {
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [outcome, setOutcome] = useState(0);
+  const [qty, setQty] = useState(5);
+  const [tolerancePct, setTolerancePct] = useState(0.1);
+  const [result, setResult] = useState<ConvergenceResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = () => {
+    if (!state) return alert("Load Market A first");
+    try {
+      setResult(analyzeSteps(state, side, outcome, toWad(qty)));
+      setError(null);
+    } catch (e) {
+      setResult(null);
+      setError((e as { reason?: string }).reason ?? (e as Error).message);
+    }
+  };
+
+  const recommended = result ? recommendK(result.points, tolerancePct / 100) : null;
+  const data = result?.points.map(p => ({
+    k: p.k,
+    amount: p.amount,
+    reference: result.reference,
+    // log axis: keep exact hits (LMSR) plottable
+    relErrorPct: Math.max(p.relError * 100, 1e-12),
+    ...Object.fromEntries(p.pricesAfter.map((x, i) => [`p${i}`, x])),
+  })) ?? [];
+  const colors = ["#10B981", "#3B82F6", "#8B5CF6", "#F59E0B", "#EC4899"];
+
+  return (
+    <Card className="mb-6">
+      <h2 className="text-xl font-semibold mb-3 text-purple-300">Step-Count (K) Convergence</h2>
+      <div className="text-sm text-gray-400 mb-4">
+        Quotes one trade on Market A{marketId !== "" ? ` (#${marketId})` : ""} for K = 1…{MAX_STEPS} and compares each to the
+        continuous-b integral computed off-chain.
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+        <Select
+          label="Side"
+          value={side}
+          onChange={(e) => setSide(e.target.value as "buy" | "sell")}
+          options={[{ value: "buy", label: "Buy" }, { value: "sell", label: "Sell" }]}
+        />
+        <Input label="Outcome" type="number" value={outcome} onChange={(e) => setOutcome(Number(e.target.value))} min={0} />
+        <Input label="Quantity (ΔQ)" type="number" value={qty} onChange={(e) => setQty(Number(e.target.value))} step="0.1" />
+        <Input label="Tolerance (%)" type="number" value={tolerancePct} onChange={(e) => setTolerancePct(Number(e.target.value))} step="0.01" />
+        <div className="flex items-end">
+          <Button onClick={run} className="w-full" disabled={!state}>Analyze K</Button>
+        </div>
+      </div>
+      {error && <div className="text-red-400 text-sm mb-3">{error}</div>}
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+            <span>Reference: <span className="font-mono">{result.reference.toFixed(9)}</span> mUSD</span>
+            {state && exactQuotes(state.meta.mech) ? (
+              <span className="text-gray-400">{mechName(state.meta.mech)} quotes are exact; K is ignored.</span>
+            ) : recommended !== null ? (
+              <>
+                <span>
+                  Smallest K within {tolerancePct}%: <span className="font-mono text-green-400">{recommended}</span>
+                  {" "}(error {(result.points[recommended - 1].relError * 100).toExponential(2)}%)
+                </span>
+                <Button onClick={() => onUseK(recommended)} variant="secondary">Use K = {recommended}</Button>
+              </>
+            ) : (
+              <span className="text-yellow-400">
+                No K ≤ {MAX_STEPS} is within {tolerancePct}% (K = {MAX_STEPS}: {(result.points[MAX_STEPS - 1].relError * 100).toExponential(2)}%).
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div>
+              <div className="text-sm text-gray-400 mb-2">{side === "buy" ? "Cost" : "Payout"} vs K</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="k" stroke="#9CA3AF" fontSize={12} />
+                    <YAxis domain={["auto", "auto"]} stroke="#9CA3AF" fontSize={12} tickFormatter={(v: number) => v.toFixed(4)} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={fmtTooltip} />
+                    <Legend />
+                    <Line type="monotone" dataKey="amount" name="Stepped" stroke="#F59E0B" dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="reference" name="Continuous" stroke="#9CA3AF" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-400 mb-2">Relative error vs K (%, log scale)</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="k" stroke="#9CA3AF" fontSize={12} />
+                    <YAxis scale="log" domain={["auto", "auto"]} stroke="#9CA3AF" fontSize={12} tickFormatter={(v: number) => v.toExponential(0)} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(v: number) => `${v.toExponential(3)}%`} />
+                    <Line type="monotone" dataKey="relErrorPct" name="Error" stroke="#EF4444" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-400 mb-2">Post-trade prices vs K</div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="k" stroke="#9CA3AF" fontSize={12} />
+                    <YAxis domain={[0, 1]} stroke="#9CA3AF" fontSize={12} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} formatter={fmtTooltip} />
+                    <Legend />
+                    {result.points[0].pricesAfter.map((_, i) => (
+                      <Line key={i} type="monotone" dataKey={`p${i}`} name={`p${i}`} stroke={colors[i]} dot={false} isAnimationActive={false} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                Post-trade q and b(T) don't depend on K, so only the cost converges; the prices stay flat.
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+});
+
+// ---------- Multi-leg tickets ----------
+type TicketRow = { side: "buy" | "sell"; outcome: number; qty: number; slippage: number };
+type LegStatus = { state: "pending" | "sending" | "done" | "failed" | "skipped"; hash?: Hex; error?: DecodedRevert };
+
+type TradeTicketProps = {
+  account: Hex | null;
+  backend: AmmBackend;
+  marketId: number | "";
+  stepsK: number;
+  closed: boolean;
+  onAfterEach?: () => Promise<void>;
+  trackTx: ScenarioRunnerProps["trackTx"];
+};
+
+const TradeTicketPanel = React.memo(function TradeTicketPanel(props: TradeTicketProps) {
+  const { account, backend, marketId, stepsK, closed, onAfterEach, trackTx } = props;
+  const [rows, setRows] = useState<TicketRow[]>([
+    { side: "buy", outcome: 0, qty: 3, slippage: 0.5 },
+    { side: "sell", outcome: 2, qty: 1, slippage: 0.5 },
+  ]);
+  const [ticket, setTicket] = useState<TicketQuote | null>(null);
+  const [statuses, setStatuses] = useState<LegStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const legs = rows.map((r): TicketLeg => ({ side: r.side, outcome: r.outcome, dQWad: toWad(r.qty), slippagePct: r.slippage }));
+
+  const edit = (i: number, patch: Partial<TicketRow>) => {
+    setRows(prev => prev.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+    setTicket(null);
+    setStatuses([]);
+  };
+  const addLeg = () => {
+    setRows(prev => [...prev, { side: "buy", outcome: 0, qty: 1, slippage: 0.5 }]);
+    setTicket(null);
+  };
+  const removeLeg = (i: number) => {
+    setRows(prev => prev.filter((_, j) => j !== i));
+    setTicket(null);
+    setStatuses([]);
+  };
+
+  // chains every leg on a fresh state() snapshot
+  const quote = async () => {
+    if (marketId === "") {
+      alert("Enter marketId");
+      return null;
+    }
+    try {
+      const q = quoteTicket(await backend.state(marketId), legs, stepsK);
+      setTicket(q);
+      setError(null);
+      return q;
+    } catch (e) {
+      setTicket(null);
+      setError((e as Error).message);
+      return null;
+    }
+  };
+
+  const send = async () => {
+    if (!account) return alert("Connect wallet first");
+    if (marketId === "") return;
+    const q = await quote();
+    if (!q) return;
+
+    setSending(true);
+    const st: LegStatus[] = legs.map(() => ({ state: "pending" }));
+    setStatuses([...st]);
+    for (const [i, leg] of legs.entries()) {
+      st[i] = { state: "sending" };
+      setStatuses([...st]);
+      const { amountWad, boundWad } = q.legs[i];
+      try {
+        const hash = leg.side === "buy"
+          ? await backend.buy(account, marketId, leg.outcome, leg.dQWad, stepsK, boundWad)
+          : await backend.sell(account, marketId, leg.outcome, leg.dQWad, stepsK, boundWad);
+        await trackTx({
+          hash, kind: leg.side, from: account, marketId, outcome: leg.outcome,
+          dQWad: leg.dQWad, quotedWad: amountWad, boundWad,
+        });
+        st[i] = { state: "done", hash };
+      } catch (e) {
+        st[i] = { state: "failed", error: decodeRevert(e) };
+        for (let j = i + 1; j < st.length; j++) st[j] = { state: "skipped" };
+        setError(
+          `Leg ${i + 1} failed; ${i === 0 ? "no legs went through" : `legs 1–${i} went through`}, the rest were not sent.`,
+        );
+        break;
+      } finally {
+        setStatuses([...st]);
+      }
+    }
+    setSending(false);
+    await onAfterEach?.();
+  };
+
+  const statusColor = { pending: "text-gray-500", sending: "text-yellow-400", done: "text-green-400", failed: "text-red-400", skipped: "text-gray-500" };
+
+  return (
+    <Card className="mt-6">
+      <h2 className="text-xl font-semibold mb-3 text-purple-300">Multi-Leg Ticket</h2>
+      <div className="text-sm text-gray-400 mb-4">
+        Legs are quoted in order, each on the state the previous one leaves behind, then sent one transaction at a
+        time on Market A{marketId !== "" ? ` (#${marketId})` : ""}. A failed leg stops the ticket.
+      </div>
+
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-gray-400 border-b border-gray-700">
+            <th className="text-left py-2">#</th>
+            <th className="text-left py-2">Side</th>
+            <th className="text-left py-2">Outcome</th>
+            <th className="text-left py-2">ΔQ</th>
+            <th className="text-left py-2">Slippage %</th>
+            <th className="text-right py-2">Cost / Payout</th>
+            <th className="text-right py-2">Bound</th>
+            <th className="text-right py-2">p_i after</th>
+            <th className="text-left py-2 pl-4">Status</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, i) => {
+            const lq = ticket?.legs[i];
+            const st = statuses[i];
+            return (
+              <tr key={i} className="border-b border-gray-800">
+                <td className="py-2 text-gray-400">{i + 1}</td>
+                <td className="py-2 pr-2">
+                  <Select
+                    value={r.side}
+                    onChange={(e) => edit(i, { side: e.target.value as "buy" | "sell" })}
+                    options={[{ value: "buy", label: "Buy" }, { value: "sell", label: "Sell" }]}
+                    disabled={sending}
+                  />
+                </td>
+                <td className="py-2 pr-2">
+                  <Input type="number" value={r.outcome} onChange={(e) => edit(i, { outcome: Number(e.target.value) })} min={0} disabled={sending} />
+                </td>
+                <td className="py-2 pr-2">
+                  <Input type="number" value={r.qty} onChange={(e) => edit(i, { qty: Number(e.target.value) })} step="0.1" disabled={sending} />
+                </td>
+                <td className="py-2 pr-2">
+                  <Input type="number" value={r.slippage} onChange={(e) => edit(i, { slippage: Number(e.target.value) })} step="0.1" min={0} disabled={sending} />
+                </td>
+                <td className="py-2 text-right font-mono">{lq ? fromWad(lq.amountWad).toFixed(6) : "—"}</td>
+                <td className="py-2 text-right font-mono text-gray-400">
+                  {lq ? `${r.side === "buy" ? "≤" : "≥"} ${fromWad(lq.boundWad).toFixed(6)}` : "—"}
+                </td>
+                <td className="py-2 text-right font-mono">{lq ? fromWad(lq.pricesAfter[r.outcome]).toFixed(4) : "—"}</td>
+                <td className={`py-2 pl-4 ${st ? statusColor[st.state] : "text-gray-500"}`}>
+                  {st ? st.state : ""}
+                  {st?.hash && <span className="font-mono text-xs text-gray-400"> {st.hash.slice(0, 10)}…</span>}
+                  {st?.error && (
+                    <div className="text-xs" title={st.error.raw}>
+                      {st.error.name}: {st.error.message}{st.error.fix ? ` ${st.error.fix}` : ""}
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 text-right">
+                  <button onClick={() => removeLeg(i)} disabled={sending || rows.length === 1} className="text-gray-400 hover:text-red-400 disabled:opacity-30">
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {error && <div className="text-red-400 text-sm mb-3">{error}</div>}
+
+      {ticket && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="bg-gray-900 rounded-lg p-4">
+            <div className="text-sm text-gray-400 mb-1">{ticket.netCostWad >= 0n ? "Net cost" : "Net payout"}</div>
+            <div className="text-2xl font-bold text-green-400">{Math.abs(fromWad(ticket.netCostWad)).toFixed(6)}</div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-4">
+            <div className="text-sm text-gray-400 mb-1">Worst case within slippage</div>
+            <div className="text-2xl font-bold text-yellow-400">
+              {ticket.maxNetCostWad >= 0n ? "cost " : "payout "}
+              {Math.abs(fromWad(ticket.maxNetCostWad)).toFixed(6)}
+            </div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-4">
+            <div className="text-sm text-gray-400 mb-1">Final prices</div>
+            <div className="font-mono text-sm">{ticket.finalPrices.map((p, i) => `p${i} ${fromWad(p).toFixed(4)}`).join(" · ")}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <Button onClick={addLeg} variant="secondary" disabled={sending}>Add Leg</Button>
+        <Button onClick={quote} variant="secondary" disabled={sending || marketId === ""}>Quote Ticket</Button>
+        <Button onClick={send} variant="success" disabled={sending || closed || marketId === ""}>
+          {sending ? "Sending…" : `Send ${rows.length} Leg${rows.length === 1 ? "" : "s"}`}
+        </Button>
+      </div>
+    </Card>
+  );
+});
+
+// ---------- Networks ----------
+type NetworkManagerProps = {
+  networks: NetworkConfig[];
+  /** network in use, null in sim mode */
+  current: NetworkConfig | null;
+  onSelect: (key: string) => void;
+  onCustomNetworksChange: (list: NetworkConfig[]) => void;
+};
+
+const EMPTY_NETWORK_FORM = { name: "", chainId: "", rpcUrl: "", ammAddress: "", explorerUrl: "", deployBlock: "0" };
+
+const NetworkManager = React.memo(function NetworkManager({ networks, current, onSelect, onCustomNetworksChange }: NetworkManagerProps) {
+  const [form, setForm] = useState(EMPTY_NETWORK_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = React.useRef<HTMLInputElement>(null);
+  const custom = networks.filter(n => n.key.startsWith("custom:"));
+
+  const set = (k: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) => setForm({ ...form, [k]: e.target.value });
+
+  const save = () => {
+    try {
+      const n = validateNetwork({
+        key: `custom:${form.chainId}:${form.ammAddress.toLowerCase()}`,
+        name: form.name,
+        chainId: Number(form.chainId),
+        rpcUrl: form.rpcUrl.trim(),
+        ammAddress: form.ammAddress.trim() as Hex,
+        explorerUrl: form.explorerUrl.trim() || null,
+        deployBlock: BigInt(form.deployBlock || 0),
+      });
+      onCustomNetworksChange([...custom.filter(x => x.key !== n.key), n]);
+      setForm(EMPTY_NETWORK_FORM);
+      setError(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const edit = (n: NetworkConfig) => {
+    setForm({
+      name: n.name,
+      chainId: String(n.chainId),
+      rpcUrl: n.rpcUrl,
+      ammAddress: n.ammAddress,
+      explorerUrl: n.explorerUrl ?? "",
+      deployBlock: n.deployBlock.toString(),
+    });
+    setError(null);
+  };
+
+  const importBroadcast = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const d = parseBroadcast(await file.text());
+      if (!d) throw new Error("no LsLmsrAMM deployment in this broadcast");
+      setForm(f => ({
+        ...f,
+        name: f.name || `Chain ${d.chainId}`,
+        chainId: String(d.chainId),
+        rpcUrl: f.rpcUrl || (d.chainId === 31337 ? "http://127.0.0.1:8545" : ""),
+        ammAddress: d.ammAddress,
+        deployBlock: d.deployBlock.toString(),
+      }));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <details>
+        <summary className="cursor-pointer text-xl font-semibold text-purple-300">
+          Networks <span className="text-sm font-normal text-gray-400">— {current ? `${current.name}, AMM ${current.ammAddress}` : "Simulator"}</span>
+        </summary>
+
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="p-2 text-left text-gray-400">Name</th>
+                <th className="p-2 text-left text-gray-400">Chain</th>
+                <th className="p-2 text-left text-gray-400">RPC</th>
+                <th className="p-2 text-left text-gray-400">AMM</th>
+                <th className="p-2 text-left text-gray-400">Explorer</th>
+                <th className="p-2 text-right text-gray-400">Deploy Block</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {networks.map(n => (
+                <tr key={n.key} className={`border-b border-gray-800 ${current?.key === n.key ? "bg-gray-900" : ""}`}>
+                  <td className="p-2">{n.name}</td>
+                  <td className="p-2 font-mono text-xs">{n.chainId}</td>
+                  <td className="p-2 font-mono text-xs break-all">{n.rpcUrl}</td>
+                  <td className="p-2 font-mono text-xs" title={n.ammAddress}>{n.ammAddress.slice(0, 6)}…{n.ammAddress.slice(-4)}</td>
+                  <td className="p-2 text-xs">{n.explorerUrl ?? "—"}</td>
+                  <td className="p-2 text-right font-mono text-xs">{n.deployBlock.toString()}</td>
+                  <td className="p-2 whitespace-nowrap text-xs">
+                    {current?.key !== n.key && (
+                      <button onClick={() => onSelect(n.key)} className="text-blue-400 underline mr-2">use</button>
+                    )}
+                    <button onClick={() => edit(n)} className="text-blue-400 underline mr-2">edit as new</button>
+                    {n.key.startsWith("custom:") && (
+                      <button
+                        onClick={() => onCustomNetworksChange(custom.filter(x => x.key !== n.key))}
+                        className="text-red-400 underline"
+                      >
+                        delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 bg-gray-900 rounded-lg p-4">
+          <div className="text-sm font-medium text-gray-300 mb-3">Add network</div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <Input label="Name" value={form.name} onChange={set("name")} placeholder="My testnet" />
+            <Input label="Chain ID" type="number" value={form.chainId} onChange={set("chainId")} />
+            <Input label="RPC URL" value={form.rpcUrl} onChange={set("rpcUrl")} placeholder="https://…" />
+            <Input label="AMM address" value={form.ammAddress} onChange={set("ammAddress")} placeholder="0x…" />
+            <Input label="Explorer URL (optional)" value={form.explorerUrl} onChange={set("explorerUrl")} placeholder="https://…" />
+            <Input label="Deploy block" type="number" value={form.deployBlock} onChange={set("deployBlock")} />
+          </div>
+          {error && <div className="text-red-400 text-sm mb-3">{error}</div>}
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={save}>Save Network</Button>
+            <Button onClick={() => fileRef.current?.click()} variant="secondary">Import run-latest.json</Button>
+            <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={importBroadcast} />
+          </div>
+          <div className="text-xs text-gray-400 mt-2">
+            Importing a Foundry <code>broadcast/…/run-latest.json</code> fills in the chain id, AMM address and deploy block.
+            Broadcasts under <code>contracts/broadcast</code> are picked up at build time.
+          </div>
+        </div>
+      </details>
     </Card>
   );
 });
 
-// ---------- ENV ----------
-const RPC_URL = import.meta.env.VITE_RPC_URL as string | undefined;
-const AMM_ADDRESS = (import.meta.env.VITE_AMM_ADDR as `0x${string}` | undefined) ??
-  ("0x0000000000000000000000000000000000000000" as const);
-
 // ---------- WAD helpers ----------
-const WAD = 10n ** 18n;
 const toWad = (x: number) => BigInt(Math.round(x * 1e6)) * (WAD / 1_000_000n);
 const fromWad = (x?: bigint) => (x ? Number(x) / 1e18 : 0);
 
-// ---------- ABIs ----------
-const ERC20_ABI = [
-  {
-    type: "function",
-    name: "balanceOf",
-    stateMutability: "view",
-    inputs: [{ name: "owner", type: "address" }],
-    outputs: [{ type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "allowance",
-    stateMutability: "view",
-    inputs: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
-    ],
-    outputs: [{ type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "approve",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [{ type: "bool" }],
-  },
-] as const;
-
-const AMM_ABI = [
-  {
-    type: "function",
-    name: "createMarket",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "mech", type: "uint8" },
-      { name: "n", type: "uint8" },
-      { name: "b0Wad", type: "uint256" },
-      { name: "alphaWad", type: "uint256" },
-    ],
-    outputs: [{ type: "uint256" }],
-  },
-  {
-    type: "function",
-    name: "state",
-    stateMutability: "view",
-    inputs: [{ name: "marketId", type: "uint256" }],
-    outputs: [
-      {
-        components: [
-          { name: "mech", type: "uint8" },
-          { name: "n", type: "uint8" },
-          { name: "b0Wad", type: "uint256" },
-          { name: "alphaWad", type: "uint256" },
-          { name: "collateral", type: "uint256" },
-          { name: "closed", type: "bool" },
-        ],
-        type: "tuple",
-      },
-      { type: "uint256[]" },
-      { type: "uint256" },
-      { type: "uint256" },
-      { type: "uint256[]" },
-    ],
-  },
-  {
-    type: "function",
-    name: "prices",
-    stateMutability: "view",
-    inputs: [{ name: "marketId", type: "uint256" }],
-    outputs: [{ type: "uint256[]" }],
-  },
-  {
-    type: "function",
-    name: "quoteBuy",
-    stateMutability: "view",
-    inputs: [
-      { name: "marketId", type: "uint256" },
-      { name: "outcome", type: "uint8" },
-      { name: "dQWad", type: "uint256" },
-      { name: "steps", type: "uint16" },
-    ],
-    outputs: [{ type: "uint256" }, { type: "uint256[]" }],
-  },
-  {
-    type: "function",
-    name: "quoteSell",
-    stateMutability: "view",
-    inputs: [
-      { name: "marketId", type: "uint256" },
-      { name: "outcome", type: "uint8" },
-      { name: "dQWad", type: "uint256" },
-      { name: "steps", type: "uint16" },
-    ],
-    outputs: [{ type: "int256" }, { type: "uint256[]" }],
-  },
-  {
-    type: "function",
-    name: "buy",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "marketId", type: "uint256" },
-      { name: "outcome", type: "uint8" },
-      { name: "dQWad", type: "uint256" },
-      { name: "steps", type: "uint16" },
-      { name: "maxCostWad", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "sell",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "marketId", type: "uint256" },
-      { name: "outcome", type: "uint8" },
-      { name: "dQWad", type: "uint256" },
-      { name: "steps", type: "uint16" },
-      { name: "minPayoutWad", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    type: "function",
-    name: "collateralToken",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ type: "address" }],
-  },
-  {
-    type: "function",
-    name: "userShares",
-    stateMutability: "view",
-    inputs: [
-      { name: "marketId", type: "uint256" },
-      { name: "user", type: "address" },
-      { name: "outcome", type: "uint8" },
-    ],
-    outputs: [{ type: "uint256" }],
-  },
-] as const;
-
 // ---------- Wallet / RPC clients ----------
-const chain = sepolia;
-const transport = http(RPC_URL);
-const publicClient = createPublicClient({ chain, transport });
-
-function useWallet() {
-  const [account, setAccount] = useState<`0x${string}` | null>(null);
-  const [walletClient, setWalletClient] = useState<ReturnType<typeof createWalletClient> | null>(null);
+function useWallet(mode: BackendMode, chain: Chain) {
+  const [account, setAccount] = useState<Hex | null>(null);
+  const [walletClient, setWalletClient] = useState<WalletClient | null>(null);
 
   const connect = async () => {
+    // simulator accounts need no signer
+    if (mode === "sim") {
+      setAccount(SIM_ACCOUNTS[0].address);
+      return;
+    }
     if (!window.ethereum) {
       alert("No injected wallet found (MetaMask, etc.)");
       return;
     }
     const wc = createWalletClient({ chain, transport: custom(window.ethereum) });
     const [addr] = await wc.requestAddresses();
+    try {
+      await wc.switchChain({ id: chain.id });
+    } catch {
+      // unknown to the wallet: add it (this also switches)
+      await wc.addChain({ chain });
+    }
     setAccount(addr);
     setWalletClient(wc);
   };
@@ -482,7 +2249,7 @@ function useWallet() {
     setWalletClient(null);
   };
 
-  return { account, walletClient, connect, disconnect };
+  return { account, setAccount, walletClient, connect, disconnect };
 }
 
 // ---------- STYLED UI COMPONENTS ----------
@@ -568,247 +2335,527 @@ const Select: React.FC<{
   </div>
 );
 
+/** A failed write or quote, decoded (reverts.ts), shown next to the action that caused it. */
+const TxErrorNotice: React.FC<{ error: DecodedRevert | null; onDismiss?: () => void }> = ({ error, onDismiss }) => {
+  if (!error) return null;
+  return (
+    <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 mb-4 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <span className="font-mono text-red-300">{error.name}</span>
+          <span className="text-red-200"> — {error.message}</span>
+          {error.fix && <div className="text-gray-300 mt-1">Fix: {error.fix}</div>}
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-gray-400 hover:text-white">✕</button>
+        )}
+      </div>
+      {error.raw !== error.message && (
+        <details className="mt-2 text-xs text-gray-400">
+          <summary className="cursor-pointer">Details</summary>
+          <div className="font-mono break-all mt-1">{error.raw}</div>
+        </details>
+      )}
+    </div>
+  );
+};
+
 // ---------- UI ----------
 export default function App() {
-  const { account, walletClient, connect, disconnect } = useWallet();
+  const [mode, setMode] = useState<BackendMode>(() => (localStorage.getItem("backendMode") === "sim" ? "sim" : "chain"));
+  const [customNetworks, setCustomNetworks] = useState<NetworkConfig[]>(loadCustomNetworks);
+  const [networkKey, setNetworkKey] = useState(() => localStorage.getItem("network") ?? DEFAULT_NETWORK_KEY);
+  const networks = allNetworks(customNetworks);
+  const network = networks.find(n => n.key === networkKey) ?? networks[0];
+
+  // "sim" or a network key
+  const changeTarget = (target: string) => {
+    const m: BackendMode = target === "sim" ? "sim" : "chain";
+    localStorage.setItem("backendMode", m);
+    setMode(m);
+    if (m === "chain") {
+      localStorage.setItem("network", target);
+      setNetworkKey(target);
+    }
+  };
+  const changeCustomNetworks = (list: NetworkConfig[]) => {
+    storeCustomNetworks(list);
+    setCustomNetworks(list);
+  };
+
+  // remount on switch so wallet, loaded markets and history never mix backends or networks
+  return (
+    <Dashboard
+      key={mode === "sim" ? "sim" : network.key}
+      mode={mode}
+      network={network}
+      networks={networks}
+      onTargetChange={changeTarget}
+      onCustomNetworksChange={changeCustomNetworks}
+    />
+  );
+}
+
+type DashboardProps = {
+  mode: BackendMode;
+  /** on-chain target; ignored in sim mode */
+  network: NetworkConfig;
+  networks: NetworkConfig[];
+  onTargetChange: (target: string) => void;
+  onCustomNetworksChange: (list: NetworkConfig[]) => void;
+};
+
+function Dashboard({ mode, network, networks, onTargetChange, onCustomNetworksChange }: DashboardProps) {
+  const chain = useMemo(() => chainOf(network), [network]);
+  const publicClient = useMemo(() => createPublicClient({ chain, transport: transportOf(network) }), [chain, network]);
+  const { account, setAccount, walletClient, connect, disconnect } = useWallet(mode, chain);
+  const backend = useMemo<AmmBackend>(
+    () => mode === "sim"
+      ? simBackend
+      : createChainBackend({ publicClient, walletClient, chain, ammAddress: network.ammAddress }),
+    [mode, publicClient, walletClient, chain, network.ammAddress],
+  );
+  const indexer = useMemo(
+    () => createIndexer(backend, {
+      cacheKey: indexerCacheKey(mode === "sim" ? "sim" : String(network.chainId), backend.ammAddress),
+      startBlock: mode === "sim" ? 0n : network.deployBlock,
+    }),
+    [mode, backend, network.chainId, network.deployBlock],
+  );
+  const txUrl = useCallback((hash: Hex) => (mode === "sim" ? null : explorerTxUrl(network, hash)), [mode, network]);
+  const networkLabel = mode === "sim" ? "simulator" : network.name;
+  // simulator and non-Sepolia history live next to the Sepolia one (which keeps the original keys)
+  const storageKey = (k: string) => (mode === "sim" ? `sim:${k}` : network.key === "sepolia" ? k : `${network.key}:${k}`);
 
   const [showFormulas, setShowFormulas] = useState(false);
   const [marketId, setMarketId] = useState<number | "">("");
   const [compareMarketId, setCompareMarketId] = useState<number | "">("");
   const [n, setN] = useState(3);
-  const [mech, setMech] = useState<0 | 1>(1);
+  const [mech, setMech] = useState<Mechanism>(Mechanism.LS_PROXY);
   const [b0, setB0] = useState(5);
   const [alpha, setAlpha] = useState(0.1);
+  const [bCap, setBCap] = useState(20);
   const [steps, setSteps] = useState(16);
 
-  const [state, setState] = useState<any | null>(null);
-  const [stateB, setStateB] = useState<any | null>(null);
+  const [state, setState] = useState<MarketState | null>(null);
+  const [stateB, setStateB] = useState<MarketState | null>(null);
   const [collateralAddr, setCollateralAddr] = useState<`0x${string}` | null>(null);
   const [allowance, setAllowance] = useState<bigint>(0n);
   const [balance, setBalance] = useState<bigint>(0n);
 
-  type TxItem = {
-    marketId: number;
-    side: "buy" | "sell" | "create";
-    hash: `0x${string}`;
-    outcome?: number;
-    qty?: number;
-    costOrPayout?: number;
-    ts: number; // ms
-  };
-
   const [recentMarkets, setRecentMarkets] = useState<number[]>(() => {
-    try { return JSON.parse(localStorage.getItem("recentMarkets") || "[]"); } catch { return []; }
-  });
-  const [txs, setTxs] = useState<TxItem[]>(() => {
-    try { return JSON.parse(localStorage.getItem("txs") || "[]"); } catch { return []; }
+    try { return JSON.parse(localStorage.getItem(storageKey("recentMarkets")) || "[]"); } catch { return []; }
   });
 
+  // tx history in IndexedDB; txVersion bumps on every write so the panel re-reads
+  const txNetwork = storageKey("txs");
+  const [txVersion, setTxVersion] = useState(0);
+  const [txStoreError, setTxStoreError] = useState<string | null>(null);
+  const txStore = useMemo(
+    () => createTxStore(
+      txNetwork,
+      () => setTxVersion(v => v + 1),
+      // trades still go through; only their history is missing
+      (e) => setTxStoreError(txHistoryError(e)),
+    ),
+    [txNetwork],
+  );
+  const trackTx = useCallback(
+    (sub: TxSubmission) => txStore.track(sub, (h) => backend.waitForTx(h)),
+    [txStore, backend],
+  );
+  useEffect(() => {
+    setTxStoreError(null);
+    (async () => {
+      // the old 20-entry localStorage history, under the same key
+      const legacy = localStorage.getItem(txNetwork);
+      if (legacy) {
+        let items: LegacyTxItem[] | null = null;
+        try { items = JSON.parse(legacy); } catch { /* unreadable: drop it */ }
+        // kept until the import succeeds
+        if (items) await txStore.importLegacy(items);
+        localStorage.removeItem(txNetwork);
+      }
+      await txStore.resume((h) => backend.waitForTx(h, { timeoutMs: 120_000 }));
+    })().catch((e) => setTxStoreError(txHistoryError(e)));
+  }, [txStore, txNetwork, backend]);
+
   const pushRecentMarket = (id: number) => {
     setRecentMarkets(prev => {
       const next = [id, ...prev.filter(x => x !== id)].slice(0, 8);
-      localStorage.setItem("recentMarkets", JSON.stringify(next));
+      localStorage.setItem(storageKey("recentMarkets"), JSON.stringify(next));
       return next;
     });
   };
 
-  const pushTx = (item: TxItem) => {
-    setTxs(prev => {
-      const next = [item, ...prev].slice(0, 20);
-      localStorage.setItem("txs", JSON.stringify(next));
-      return next;
-    });
-  };
 
+  const [updatedBlock, setUpdatedBlock] = useState<bigint | null>(null);
+  const [missed, setMissed] = useState(0);
 
   const refresh = useCallback(async () => {
+    // read the head first: the states below are at least this fresh
+    setUpdatedBlock(await backend.blockNumber());
+    setMissed(0);
     if (marketId !== "") {
-      const mId = BigInt(marketId);
-      const res = await publicClient.readContract({ address: AMM_ADDRESS, abi: AMM_ABI, functionName: "state", args: [mId] });
-      const [meta, q, T, bEff, prices] = res as any;
-      setState({ meta, q, T, bEff, prices });
+      setState(await backend.state(Number(marketId)));
     } else {
       setState(null);
     }
 
     if (compareMarketId !== "") {
-      const mIdB = BigInt(compareMarketId);
-      const resB = await publicClient.readContract({ address: AMM_ADDRESS, abi: AMM_ABI, functionName: "state", args: [mIdB] });
-      const [metaB, qB, TB, bEffB, pricesB] = resB as any;
-      setStateB({ meta: metaB, q: qB, T: TB, bEff: bEffB, prices: pricesB });
+      setStateB(await backend.state(Number(compareMarketId)));
     } else {
       setStateB(null);
     }
-  }, [marketId, compareMarketId]);
+  }, [marketId, compareMarketId, backend]);
 
   useEffect(() => {
     (async () => {
-      const addr = await publicClient.readContract({ address: AMM_ADDRESS, abi: AMM_ABI, functionName: "collateralToken" });
-      setCollateralAddr(addr as `0x${string}`);
+      setCollateralAddr(await backend.collateralToken());
     })();
-  }, []);
+  }, [backend]);
+
+  const refreshWallet = useCallback(async () => {
+    if (!account || !collateralAddr) return;
+    const [allow, bal] = await Promise.all([
+      backend.allowance(account),
+      backend.balanceOf(account),
+    ]);
+    setAllowance(allow);
+    setBalance(bal);
+  }, [account, collateralAddr, backend]);
 
   useEffect(() => {
-    (async () => {
-      if (!account || !collateralAddr) return;
-      const [allow, bal] = await Promise.all([
-        publicClient.readContract({ address: collateralAddr, abi: ERC20_ABI, functionName: "allowance", args: [account, AMM_ADDRESS] }),
-        publicClient.readContract({ address: collateralAddr, abi: ERC20_ABI, functionName: "balanceOf", args: [account] }),
-      ]);
-      setAllowance(allow as bigint);
-      setBalance(bal as bigint);
-    })();
-  }, [account, collateralAddr, state, stateB]);
+    refreshWallet();
+  }, [refreshWallet, state, stateB]);
+
+  // failed writes and quotes, decoded and shown inline next to the area that sent them
+  type TxScope = "wallet" | "create" | "market" | "trade";
+  const [txErrors, setTxErrors] = useState<Partial<Record<TxScope, DecodedRevert>>>({});
+  const reportTxError = (scope: TxScope, e: unknown) => setTxErrors(prev => ({ ...prev, [scope]: decodeRevert(e) }));
+  const clearTxError = (scope: TxScope) => setTxErrors(prev => ({ ...prev, [scope]: undefined }));
 
   const create = async () => {
-    if (!walletClient || !account) return alert("Connect wallet first");
-
-    // simulate to get return value (marketId) and request
-    const sim = await publicClient.simulateContract({
-      chain,
-      address: AMM_ADDRESS,
-      abi: AMM_ABI,
-      functionName: "createMarket",
-      args: [mech, n, toWad(b0), mech === 0 ? 0n : toWad(alpha)],
-      account,
-    });
-    const createdId = Number(sim.result as bigint);
-    const hash = await walletClient.writeContract(sim.request);
-    await publicClient.waitForTransactionReceipt({ hash });
-
-    alert(`Created marketId = ${createdId} (tx: ${hash})`);
-    setMarketId(createdId);
-    pushRecentMarket(createdId);
-    pushTx({ marketId: createdId, side: "create", hash, ts: Date.now() });
-    await refresh();
+    if (!account) return alert("Connect wallet first");
+    clearTxError("create");
+
+    try {
+      const { marketId: createdId, hash } = await backend.createMarket(account, {
+        mech,
+        n,
+        b0Wad: toWad(b0),
+        alphaWad: mech === Mechanism.LMSR ? 0n : toWad(alpha),
+        ...(mech === Mechanism.LS_CAPPED && { bCapWad: toWad(bCap) }),
+      });
+      await trackTx({ hash, kind: "create", from: account, marketId: createdId });
+
+      alert(`Created marketId = ${createdId} (tx: ${hash})`);
+      setMarketId(createdId);
+      pushRecentMarket(createdId);
+      await refresh();
+    } catch (e) {
+      reportTxError("create", e);
+    }
+  };
+
+  const closeMarket = async (id: number) => {
+    if (!account) return alert("Connect wallet first");
+    if (!confirm(`Close market #${id}? Trading stops for good; this cannot be undone.`)) return;
+    clearTxError("market");
+    try {
+      const hash = await backend.closeMarket(account, id);
+      await trackTx({ hash, kind: "close", from: account, marketId: id });
+      await refresh();
+    } catch (e) {
+      reportTxError("market", e);
+    }
   };
 
+  // closed flags for every market the UI can point at (recent + loaded)
+  const [closedMarkets, setClosedMarkets] = useState<number[]>([]);
+  useEffect(() => {
+    let stale = false;
+    (async () => {
+      const ids = [...new Set([...recentMarkets, marketId, compareMarketId].filter((x): x is number => x !== ""))];
+      const closed = await Promise.all(ids.map(id => backend.state(id).then(s => s.meta.closed, () => false)));
+      if (!stale) setClosedMarkets(ids.filter((_, i) => closed[i]));
+    })();
+    return () => { stale = true; };
+  }, [recentMarkets, marketId, compareMarketId, backend, state, stateB]);
+  const tradingClosed = marketId !== "" && closedMarkets.includes(marketId);
+
 
   const [tradeOutcome, setTradeOutcome] = useState(0);
   const [tradeQty, setTradeQty] = useState(2);
   const [slippage, setSlippage] = useState(0.5);
   const [side, setSide] = useState<"buy" | "sell">("buy");
+  // "amount": size the trade from a budget (buy) or target payout (sell) instead of ΔQ;
+  // "price": size (and pick the side) to move the outcome to a target probability
+  const [sizeBy, setSizeBy] = useState<"qty" | "amount" | "price">("qty");
+  const [amountTarget, setAmountTarget] = useState(10);
+  const [targetPrice, setTargetPrice] = useState(0.5);
+  const [sized, setSized] = useState<SizedQuote | null>(null);
+
+  const pickSweepPoint = useCallback((p: SweepPoint) => {
+    setMech(p.mech);
+    setN(p.n);
+    setB0(p.b0);
+    setAlpha(p.alpha);
+    setTradeQty(p.size);
+  }, []);
 
   const [quoteCost, setQuoteCost] = useState<bigint | null>(null);
-  const [postPrices, setPostPrices] = useState<bigint[] | null>(null);
+  const [postPrices, setPostPrices] = useState<readonly bigint[] | null>(null);
   const [quoteCostB, setQuoteCostB] = useState<bigint | null>(null);
-  const [postPricesB, setPostPricesB] = useState<bigint[] | null>(null);
+  const [postPricesB, setPostPricesB] = useState<readonly bigint[] | null>(null);
 
-  const quote = async () => {
-    if (marketId === "") return alert("Enter marketId");
-    const fn = side === "buy" ? "quoteBuy" : "quoteSell";
-    const res = await publicClient.readContract({ 
-      address: AMM_ADDRESS, 
-      abi: AMM_ABI, 
-      functionName: fn, 
-      args: [BigInt(marketId), tradeOutcome, toWad(tradeQty), steps] 
-    });
-    
-    if (side === "buy") {
-      const [cost, pAfter] = res as [bigint, bigint[]];
-      setQuoteCost(cost);
-      setPostPrices(pAfter);
-    } else {
-      const [payout, pAfter] = res as [bigint, bigint[]];
-      setQuoteCost(payout);
-      setPostPrices(pAfter);
+  /** What Execute Trade will send; quote() returns it so callers can chain straight into execute(). */
+  type PendingTrade = { side: "buy" | "sell"; dQ: bigint; amount: bigint };
+
+  const quote = async (): Promise<PendingTrade | undefined> => {
+    if (marketId === "") {
+      alert("Enter marketId");
+      return;
     }
+    clearTxError("trade");
+    try {
+      let sd = side;
+      let dQ = toWad(tradeQty);
+      if (sizeBy !== "qty") {
+        // solve on the local engine, then confirm with the AMM's own quote below
+        const s = await backend.state(Number(marketId));
+        let r: SizedQuote;
+        if (sizeBy === "price") {
+          // a sell toward the target can't exceed what the connected account holds
+          const held = account ? await backend.userShares(Number(marketId), account, tradeOutcome) : undefined;
+          const pt = sizeForTargetPrice(s, tradeOutcome, toWad(targetPrice), steps, held);
+          sd = pt.side;
+          setSide(sd);
+          r = pt;
+        } else if (side === "buy") {
+          r = sizeBuyForBudget(s, tradeOutcome, toWad(amountTarget), steps);
+        } else {
+          if (!account) {
+            alert("Connect wallet first");
+            return;
+          }
+          const held = await backend.userShares(Number(marketId), account, tradeOutcome);
+          r = sizeSellForPayout(s, tradeOutcome, toWad(amountTarget), steps, held);
+        }
+        if (r.dQWad === 0n) {
+          alert(
+            sizeBy === "price"
+              ? r.capped ? "You hold no shares of this outcome to sell toward the target" : "Outcome is already at the target price"
+            : side === "buy" ? "Budget is too small to buy any shares" : "You hold no shares of this outcome",
+          );
+          return;
+        }
+        dQ = r.dQWad;
+        setTradeQty(fromWad(dQ));
+        setSized(r);
+      } else {
+        setSized(null);
+      }
 
-    if (compareMarketId !== "") {
-      const resB = await publicClient.readContract({ 
-        address: AMM_ADDRESS, 
-        abi: AMM_ABI, 
-        functionName: fn, 
-        args: [BigInt(compareMarketId), tradeOutcome, toWad(tradeQty), steps] 
-      });
-      if (side === "buy") {
-        const [costB, pAfterB] = resB as [bigint, bigint[]];
-        setQuoteCostB(costB);
+      const [amount, pAfter] = sd === "buy"
+        ? await backend.quoteBuy(Number(marketId), tradeOutcome, dQ, steps)
+        : await backend.quoteSell(Number(marketId), tradeOutcome, dQ, steps);
+      setQuoteCost(amount);
+      setPostPrices(pAfter);
+
+      if (compareMarketId !== "") {
+        const [amountB, pAfterB] = sd === "buy"
+          ? await backend.quoteBuy(Number(compareMarketId), tradeOutcome, dQ, steps)
+          : await backend.quoteSell(Number(compareMarketId), tradeOutcome, dQ, steps);
+        setQuoteCostB(amountB);
         setPostPricesB(pAfterB);
       } else {
-        const [payoutB, pAfterB] = resB as [bigint, bigint[]];
-        setQuoteCostB(payoutB);
-        setPostPricesB(pAfterB);
+        setQuoteCostB(null);
+        setPostPricesB(null);
       }
-    } else {
-      setQuoteCostB(null);
-      setPostPricesB(null);
+      return { side: sd, dQ, amount };
+    } catch (e) {
+      reportTxError("trade", e);
     }
   };
 
   const approve = async () => {
-    if (!walletClient || !account || !collateralAddr) return;
-    const amount = 2n ** 256n - 1n;
-    const hash = await walletClient.writeContract({
-      chain,
-      address: collateralAddr,
-      abi: ERC20_ABI,
-      functionName: "approve",
-      account,
-      args: [AMM_ADDRESS, amount]
-    });
-    alert(`Approval sent! Tx: ${hash}`);
+    if (!account || !collateralAddr) return;
+    clearTxError("wallet");
+    try {
+      const hash = await backend.approve(account, MAX_UINT256);
+      alert(`Approval sent! Tx: ${hash}`);
+      await trackTx({ hash, kind: "approve", from: account });
+      await refreshWallet();
+    } catch (e) {
+      reportTxError("wallet", e);
+    }
   };
 
-  const execute = async () => {
-    if (!walletClient || !account || marketId === "" || quoteCost === null) return;
-    const mId = BigInt(marketId);
-    
-    if (side === "buy") {
-      const maxCost = (quoteCost * BigInt(1000 + Math.round(slippage * 10))) / 1000n;
-      const hash = await walletClient.writeContract({
-        chain,
-        address: AMM_ADDRESS,
-        abi: AMM_ABI,
-        functionName: "buy",
-        account,
-        args: [mId, tradeOutcome, toWad(tradeQty), steps, maxCost]
-      });
+  const mintSim = async () => {
+    if (!account) return;
+    clearTxError("wallet");
+    try {
+      const hash = await simBackend.mint(account, SIM_INITIAL_BALANCE);
+      await trackTx({ hash, kind: "mint", from: account });
+      await refreshWallet();
+    } catch (e) {
+      reportTxError("wallet", e);
+    }
+  };
 
-      pushTx({
-        marketId: Number(mId),
-        side: "buy",
-        hash,
-        outcome: tradeOutcome,
-        qty: tradeQty,
-        costOrPayout: fromWad(quoteCost), // cost preview used
-        ts: Date.now(),
-      });
+  const loadedMarkets = useMemo(
+    () => [marketId, compareMarketId].filter((x): x is number => x !== ""),
+    [marketId, compareMarketId],
+  );
 
-      alert(`Buy executed! Tx: ${hash}`);
-    } else {
-      const minPay = (quoteCost * BigInt(1000 - Math.round(slippage * 10))) / 1000n;
-      const hash = await walletClient.writeContract({
-        chain,
-        address: AMM_ADDRESS,
-        abi: AMM_ABI,
-        functionName: "sell",
-        account,
-        args: [mId, tradeOutcome, toWad(tradeQty), steps, minPay]
-      });
+  const exportStates = (format: "json" | "csv") => {
+    const params: RunParams = {
+      network: networkLabel,
+      ammAddress: backend.ammAddress,
+      stepsK: steps,
+      slippagePct: slippage,
+      marketIds: [marketId, compareMarketId].map(m => (m === "" ? null : m)),
+    };
+    const snap = stateSnapshot(params, [state, stateB]);
+    if (format === "json") downloadFile(exportFileName("snapshot", "json"), runToJson(snap));
+    else downloadFile(exportFileName("snapshot", "csv"), snapshotsToCsv(snap), "text/csv");
+  };
 
-      pushTx({
-        marketId: Number(mId),
-        side: "sell",
-        hash,
-        outcome: tradeOutcome,
-        qty: tradeQty,
-        costOrPayout: fromWad(quoteCost), // payout preview used
-        ts: Date.now(),
-      });
+  const resetSim = async () => {
+    if (!confirm("Drop all simulated markets, positions and balances?")) return;
+    simBackend.reset();
+    indexer.clear();
+    localStorage.removeItem(storageKey("recentMarkets"));
+    await txStore.clear().catch((e) => setTxStoreError(txHistoryError(e)));
+    setRecentMarkets([]);
+    setMarketId("");
+    setCompareMarketId("");
+    setState(null);
+    setStateB(null);
+    await refreshWallet();
+  };
 
-      alert(`Sell executed! Tx: ${hash}`);
+  const execute = async (pending?: PendingTrade) => {
+    const t = pending ?? (quoteCost === null ? null : { side, dQ: toWad(tradeQty), amount: quoteCost });
+    if (!account || marketId === "" || !t) return;
+    const mId = Number(marketId);
+    clearTxError("trade");
+    try {
+      if (t.side === "buy") {
+        const maxCost = (t.amount * BigInt(1000 + Math.round(slippage * 10))) / 1000n;
+        const hash = await backend.buy(account, mId, tradeOutcome, t.dQ, steps, maxCost);
+        await trackTx({
+          hash, kind: "buy", from: account, marketId: mId, outcome: tradeOutcome,
+          dQWad: t.dQ, quotedWad: t.amount, boundWad: maxCost,
+        });
+
+        alert(`Buy executed! Tx: ${hash}`);
+      } else {
+        const minPay = (t.amount * BigInt(1000 - Math.round(slippage * 10))) / 1000n;
+        const hash = await backend.sell(account, mId, tradeOutcome, t.dQ, steps, minPay);
+        await trackTx({
+          hash, kind: "sell", from: account, marketId: mId, outcome: tradeOutcome,
+          dQWad: t.dQ, quotedWad: t.amount, boundWad: minPay,
+        });
+
+        alert(`Sell executed! Tx: ${hash}`);
+      }
+
+      await refresh();
+
+      setPostPrices(null);
+      setPostPricesB(null);
+      setQuoteCost(null);
+      setQuoteCostB(null);
+      setSized(null);
+    } catch (e) {
+      reportTxError("trade", e);
     }
-    
-    await refresh();
+  };
+
+  // approximation error of the current K for the trade as entered, on the loaded Market A
+  const kEstimate = useMemo(() => {
+    if (!state || tradeQty <= 0) return null;
+    try {
+      return stepError(state, side, tradeOutcome, toWad(tradeQty), steps);
+    } catch {
+      return null;
+    }
+  }, [state, side, tradeOutcome, tradeQty, steps]);
+
+  // tradable range: how much of each outcome can still be bought before ExpInputTooLarge.
+  // The table shows the free fixed-b limit; the exact stepped search only runs for the
+  // entered buy, and only once it goes past that limit.
+  const headroomA = useMemo(() => (state ? state.q.map((_, i) => fixedBHeadroom(state, i)) : null), [state]);
+  const headroomB = useMemo(() => (stateB ? stateB.q.map((_, i) => fixedBHeadroom(stateB, i)) : null), [stateB]);
+  const rangeBlock = useMemo(() => {
+    if (sizeBy !== "qty" || side !== "buy") return null;
+    const dQ = toWad(tradeQty);
+    const over = ([["A", state, headroomA], ["B", stateB, headroomB]] as const).flatMap(([tag, s, h]) => {
+      if (!s || !h || tradeOutcome < 0 || tradeOutcome >= h.length || dQ <= h[tradeOutcome]) return [];
+      const max = maxBuyable(s, tradeOutcome, steps);
+      return dQ > max ? [`Market ${tag} takes at most ${fromWad(max).toFixed(6)}`] : [];
+    });
+    return over.length === 0 ? null : over.join("; ");
+  }, [sizeBy, side, tradeQty, tradeOutcome, steps, state, stateB, headroomA, headroomB]);
+
+  // a fresh market with the Create form's parameters: how much one outcome can absorb from its starting q
+  const freshHeadroom = useMemo(() => {
+    if (!(b0 > 0) || n < 2 || n > 5 || (mech !== Mechanism.LMSR && alpha < 0)) return null;
+    if (mech === Mechanism.LS_CAPPED && !(bCap >= b0)) return null;
+    const meta: MarketMeta = {
+      mech, n, b0Wad: toWad(b0), alphaWad: mech === Mechanism.LMSR ? 0n : toWad(alpha),
+      ...(mech === Mechanism.LS_CAPPED && { bCapWad: toWad(bCap) }), collateral: 0n, closed: false,
+    };
+    if (meta.b0Wad === 0n || (mech === Mechanism.LS_LMSR && meta.alphaWad === 0n)) return null;
+    try {
+      return maxBuyable(stateFromQ(meta, initialQ(meta)), 0, steps);
+    } catch {
+      // an LS-LMSR seed already past exp()'s range; createMarket rejects it
+      return null;
+    }
+  }, [mech, n, b0, alpha, bCap, steps]);
+
+  // ---------- Live updates ----------
+  const [live, setLive] = useState(true);
+  const [pauseWhileQuoting, setPauseWhileQuoting] = useState(true);
+  const [feed, setFeed] = useState<TradeEvent[]>([]);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const livePaused = !live || (pauseWhileQuoting && quoteCost !== null);
+  const watchedMarkets = useMemo(
+    () => [marketId, compareMarketId].filter((x): x is number => x !== ""),
+    [marketId, compareMarketId],
+  );
+
+  // one subscription per backend; the ref lets it see the currently loaded markets
+  const watchedRef = React.useRef(watchedMarkets);
+  useEffect(() => {
+    watchedRef.current = watchedMarkets;
+  }, [watchedMarkets]);
+  useEffect(() => backend.watchEvents(
+    (events) => {
+      const trades = events.filter((e): e is TradeEvent => e.kind === "Trade").reverse();
+      if (trades.length > 0) setFeed(prev => [...trades, ...prev].slice(0, 50));
+      const hits = events.filter(e => watchedRef.current.includes(e.marketId)).length;
+      if (hits > 0) setMissed(m => m + hits);
+      setLiveError(null);
+    },
+    (e) => setLiveError(e.message),
+  ), [backend]);
+
+  // pull in what arrived as soon as updates aren't held back
+  useEffect(() => {
+    // a failed read leaves `missed` set, so the next event retries
+    if (!livePaused && missed > 0) refresh().catch((e) => setLiveError(`Refresh failed: ${(e as Error).message}`));
+  }, [livePaused, missed, refresh]);
 
-    setPostPrices(null);
-    setPostPricesB(null);
-    setQuoteCost(null);
-    setQuoteCostB(null);
+  const quoteAndExecute = async () => {
+    const t = await quote();
+    if (t) await execute(t);
   };
 
-  const BarChartPrices: React.FC<{ label: string; prices: bigint[] | null }> = ({ label, prices }) => {
+  const BarChartPrices: React.FC<{ label: string; prices: readonly bigint[] | null }> = ({ label, prices }) => {
     if (!prices) return null;
     const data = prices.map((p, i) => ({ 
       name: `Outcome ${i}`, 
@@ -836,9 +2883,9 @@ export default function App() {
     );
   };
 
-  const LivePriceChart: React.FC<{ label: string; s: any | null }> = ({ label, s }) => {
+  const LivePriceChart: React.FC<{ label: string; s: MarketState | null }> = ({ label, s }) => {
     if (!s) return null;
-    const data = s.prices.map((p: bigint, i: number) => ({
+    const data = s.prices.map((p, i) => ({
       name: `Outcome ${i}`,
       price: fromWad(BigInt(p)),
     }));
@@ -863,7 +2910,13 @@ export default function App() {
     );
   };
 
-  const PricesTable: React.FC<{ s: any; title: string }> = ({ s, title }) => {
+  const PricesTable: React.FC<{
+    s: MarketState | null;
+    title: string;
+    onClose?: () => void;
+    /** max buyable ΔQ per outcome before ExpInputTooLarge */
+    headroom?: readonly bigint[] | null;
+  }> = ({ s, title, onClose, headroom }) => {
     if (!s) return <div className="text-gray-400 text-center py-8">No market loaded</div>;
     
     const { meta, q, T, bEff, prices } = s;
@@ -871,11 +2924,21 @@ export default function App() {
     
     return (
       <div>
-        <h3 className="text-lg font-semibold text-purple-300 mb-3">{title}</h3>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-semibold text-purple-300">{title}</h3>
+          {!meta.closed && onClose && (
+            <Button onClick={onClose} variant="danger">Close Market</Button>
+          )}
+        </div>
         
         <div className="flex flex-wrap gap-2 mb-4">
+          {meta.closed && (
+            <span className="px-3 py-1 rounded-full bg-red-900 text-red-300 text-sm font-semibold">
+              Closed
+            </span>
+          )}
           <span className="px-3 py-1 rounded-full bg-gray-700 text-sm">
-            {meta.mech === 0 ? "LMSR" : "LS-PROXY"}
+            {mechName(meta.mech)}
           </span>
           <span className="px-3 py-1 rounded-full bg-gray-700 text-sm">
             Outcomes: {meta.n}
@@ -883,11 +2946,16 @@ export default function App() {
           <span className="px-3 py-1 rounded-full bg-gray-700 text-sm">
             b₀: {fromWad(BigInt(meta.b0Wad)).toFixed(2)}
           </span>
-          {meta.mech === 1 && (
+          {meta.mech !== Mechanism.LMSR && (
             <span className="px-3 py-1 rounded-full bg-gray-700 text-sm">
               α: {fromWad(BigInt(meta.alphaWad)).toFixed(4)}
             </span>
           )}
+          {meta.bCapWad !== undefined && (
+            <span className="px-3 py-1 rounded-full bg-gray-700 text-sm">
+              b_max: {fromWad(meta.bCapWad).toFixed(2)}
+            </span>
+          )}
         </div>
 
         <div className="grid grid-cols-3 gap-4 mb-4 text-center">
@@ -917,7 +2985,15 @@ export default function App() {
               <tr className="border-b border-gray-600">
                 <th className="text-left p-3 text-gray-400">Outcome</th>
                 <th className="text-right p-3 text-gray-400">Quantity (q)</th>
-                <th className="text-right p-3 text-gray-400">Price</th>
+                <th className="text-right p-3 text-gray-400">{meta.closed ? "Final Price" : "Price"}</th>
+                {!meta.closed && headroom && (
+                  <th
+                    className="text-right p-3 text-gray-400"
+                    title="ΔQ that can be bought before exp() overflows (ExpInputTooLarge) at the current b; exact for LMSR, and the b(T) models allow more since b grows on a buy"
+                  >
+                    Max Buy (ΔQ)
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody>
@@ -934,6 +3010,11 @@ export default function App() {
                       {(fromWad(BigInt(prices[i])) * 100).toFixed(2)}%
                     </span>
                   </td>
+                  {!meta.closed && headroom && (
+                    <td className="p-3 text-right font-mono text-gray-300">
+                      {meta.mech === Mechanism.LMSR ? "" : "≥ "}{fromWad(headroom[i]).toFixed(6)}
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -943,14 +3024,68 @@ export default function App() {
     );
   };
 
+  const SettlementPanel: React.FC<{ s: MarketState | null }> = ({ s }) => {
+    if (!s) return null;
+    const rows = settlementTable(s);
+    const subsidy = subsidyNeeded(s);
+    const bound = worstCaseLossBound(s);
+
+    return (
+      <div className="mt-4">
+        <div className="text-sm text-gray-400 mb-2">
+          {s.meta.closed ? "Final settlement" : "Settlement"} by resolution (1 mUSD per winning share)
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-600">
+              <th className="text-left p-2 text-gray-400">If wins</th>
+              {s.meta.closed && <th className="text-right p-2 text-gray-400">Final Price</th>}
+              <th className="text-right p-2 text-gray-400">Liability</th>
+              <th className="text-right p-2 text-gray-400">Surplus / Deficit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => {
+              const surplus = fromWad(r.surplus);
+              return (
+                <tr key={r.outcome} className="border-b border-gray-700">
+                  <td className="p-2">Outcome {String.fromCharCode(65 + r.outcome)}</td>
+                  {s.meta.closed && (
+                    <td className="p-2 text-right font-mono">{(fromWad(s.prices[r.outcome]) * 100).toFixed(2)}%</td>
+                  )}
+                  <td className="p-2 text-right font-mono">{fromWad(r.liability).toFixed(4)}</td>
+                  <td className={`p-2 text-right font-mono ${surplus >= 0 ? "text-green-400" : "text-red-400"}`}>
+                    {surplus >= 0 ? "+" : ""}{surplus.toFixed(4)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <div className="grid grid-cols-2 gap-4 mt-3 text-center">
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className={`text-lg font-bold ${subsidy > 0n ? "text-red-400" : "text-green-400"}`}>
+              {fromWad(subsidy).toFixed(4)}
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              {s.meta.closed ? "Subsidy needed (worst resolution)" : "Subsidy needed now (worst resolution)"}
+            </div>
+          </div>
+          <div className="bg-gray-900 rounded-lg p-3">
+            <div className="text-lg font-bold text-yellow-400">{fromWad(bound).toFixed(4)}</div>
+            <div className="text-xs text-gray-400 mt-1">
+              Max loss bound ({s.meta.mech === Mechanism.LMSR ? "b·ln n" : s.meta.mech === Mechanism.LS_LMSR ? "C(q₀) − q₀" : "b(T)·ln n"})
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const onAfterEach = useCallback(async () => {
       await refresh();
     }, [refresh]);
 
-    const onTxPushMemo = useCallback((t: any) => {
-      pushTx({ ...t, ts: Date.now() });
-    }, [pushTx]);
-
       return (
         <div className="min-h-screen bg-gray-900 text-white">
           {/* Header */}
@@ -962,12 +3097,26 @@ export default function App() {
                     LS-LMSR Market Simulator
                   </h1>
                   <p className="text-purple-100">
-                    On-chain prediction market powered by LS-LMSR mechanism
+                    {mode === "sim"
+                      ? "Offline simulator — in-memory LS-LMSR AMM, no wallet or RPC needed"
+                      : `On-chain prediction market powered by LS-LMSR mechanism — ${network.name}`}
                   </p>
                 </div>
                 
                 <div className="flex items-center gap-3">
-                  {account ? (
+                  {account && mode === "sim" ? (
+                    <select
+                      value={account}
+                      onChange={(e) => setAccount(e.target.value as Hex)}
+                      className="bg-white/20 backdrop-blur px-4 py-2 rounded-lg text-sm"
+                    >
+                      {SIM_ACCOUNTS.map((a) => (
+                        <option key={a.address} value={a.address} className="text-black">
+                          {a.label} ({a.address.slice(0, 6)}...{a.address.slice(-4)})
+                        </option>
+                      ))}
+                    </select>
+                  ) : account ? (
                     <>
                       <div className="bg-white/20 backdrop-blur px-4 py-2 rounded-lg">
                         <div className="text-xs text-purple-100">Connected</div>
@@ -981,13 +3130,25 @@ export default function App() {
                     </>
                   ) : (
                     <Button onClick={connect}>
-                      Connect Wallet
+                      {mode === "sim" ? "Use Simulated Account" : "Connect Wallet"}
                     </Button>
                   )}
                 </div>
               </div>
 
               <div className="flex gap-3 mt-4">
+                <select
+                  value={mode === "sim" ? "sim" : network.key}
+                  onChange={(e) => onTargetChange(e.target.value)}
+                  className="bg-white/20 backdrop-blur px-4 py-2 rounded-lg text-sm font-medium"
+                >
+                  {networks.map((n) => (
+                    <option key={n.key} value={n.key} className="text-black">
+                      {n.name} ({n.chainId})
+                    </option>
+                  ))}
+                  <option value="sim" className="text-black">Simulator (offline)</option>
+                </select>
                 <Button
                   onClick={() => setShowFormulas(!showFormulas)}
                   variant="secondary"
@@ -1045,10 +3206,18 @@ export default function App() {
           )}
 
           <main className="container mx-auto px-6 py-8">
+            <NetworkManager
+              networks={networks}
+              current={mode === "sim" ? null : network}
+              onSelect={onTargetChange}
+              onCustomNetworksChange={onCustomNetworksChange}
+            />
+
             {/* Wallet Info */}
             {account && collateralAddr && (
               <Card className="mb-6">
                 <h2 className="text-xl font-semibold mb-3 text-purple-300">Wallet Info</h2>
+                <TxErrorNotice error={txErrors.wallet ?? null} onDismiss={() => clearTxError("wallet")} />
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                   <div>
                     <div className="text-gray-400">Collateral Token</div>
@@ -1070,22 +3239,33 @@ export default function App() {
                     </Button>
                   </div>
                 )}
+                {mode === "sim" && (
+                  <div className="mt-4 grid grid-cols-2 gap-4">
+                    <Button onClick={mintSim} variant="secondary">
+                      Mint {fromWad(SIM_INITIAL_BALANCE).toFixed(0)} mUSD
+                    </Button>
+                    <Button onClick={resetSim} variant="danger">
+                      Reset Simulator
+                    </Button>
+                  </div>
+                )}
               </Card>
             )}
 
             {/* Create Market */}
             <Card className="mb-6">
               <h2 className="text-2xl font-semibold mb-4 text-purple-300">Create New Market</h2>
+              <TxErrorNotice error={txErrors.create ?? null} onDismiss={() => clearTxError("create")} />
               
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
                 <Select
                   label="Mechanism"
                   value={mech}
-                  onChange={(e) => setMech(Number(e.target.value) as 0 | 1)}
-                  options={[
-                    { value: 0, label: "LMSR (Fixed b)" },
-                    { value: 1, label: "LS-PROXY (Dynamic b)" },
-                  ]}
+                  onChange={(e) => setMech(Number(e.target.value) as Mechanism)}
+                  options={MECHANISMS.filter((m) => m.onChain || mode === "sim").map((m) => ({
+                    value: m.value,
+                    label: m.onChain ? m.label : `${m.label} · simulator only`,
+                  }))}
                 />
                 
                 <Input
@@ -1111,15 +3291,46 @@ export default function App() {
                   value={alpha}
                   onChange={(e) => setAlpha(Number(e.target.value))}
                   step="0.01"
-                  disabled={mech === 0}
+                  disabled={mech === Mechanism.LMSR}
                 />
+                {mech === Mechanism.LS_CAPPED && (
+                  <Input
+                    label="Cap (b_max)"
+                    type="number"
+                    value={bCap}
+                    onChange={(e) => setBCap(Number(e.target.value))}
+                    step="0.1"
+                  />
+                )}
               </div>
+              {mech === Mechanism.LS_LMSR && (
+                <div className="text-sm text-gray-400 mb-4">
+                  b = α·Σq: the market starts with b₀ / (α·n) seed shares per outcome so that b = b₀, and prices sum to
+                  about 1 + α·n·ln n.
+                  {alpha * n * 133 < 1 && (
+                    <span className="text-yellow-400">
+                      {" "}With α·n below 1/133 the seed alone puts q_i / b past exp()'s range; the simulator rejects it.
+                    </span>
+                  )}
+                </div>
+              )}
               
+              {freshHeadroom !== null && (
+                <div className={`text-sm mb-4 ${freshHeadroom < toWad(tradeQty) * 10n ? "text-yellow-400" : "text-gray-400"}`}>
+                  From a fresh book, one outcome can absorb at most {fromWad(freshHeadroom).toFixed(2)} shares
+                  before exp() overflows (ExpInputTooLarge, K = {steps}).
+                  {freshHeadroom < toWad(tradeQty) * 10n &&
+                    ` That is fewer than 10 trades of ΔQ = ${tradeQty}; raise b₀${mech !== Mechanism.LMSR ? " or α" : ""} to make the market usable.`}
+                </div>
+              )}
+
               <Button onClick={create} className="w-full">
                 Create Market
               </Button>
             </Card>
 
+            <SweepExplorer onPick={pickSweepPoint} />
+
             {/* Load Markets */}
             <Card className="mb-6">
               <h2 className="text-2xl font-semibold mb-4 text-purple-300">Load Markets</h2>
@@ -1149,96 +3360,77 @@ export default function App() {
               </div>
             </Card>
 
-            {/* Recent Markets & Tx History */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-              <Card>
-                <h2 className="text-xl font-semibold mb-3 text-purple-300">Recent Markets</h2>
-                {recentMarkets.length === 0 ? (
-                  <div className="text-gray-400 text-sm">None yet — create one above.</div>
-                ) : (
-                  <div className="flex flex-wrap gap-2">
-                    {recentMarkets.map((id) => (
-                      <button
-                        key={id}
-                        onClick={() => setMarketId(id)}
-                        className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm"
-                      >
-                        #{id}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </Card>
+            {/* Recent Markets */}
+            <Card className="mb-6">
+              <h2 className="text-xl font-semibold mb-3 text-purple-300">Recent Markets</h2>
+              {recentMarkets.length === 0 ? (
+                <div className="text-gray-400 text-sm">None yet — create one above.</div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {recentMarkets.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setMarketId(id)}
+                      className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-sm"
+                    >
+                      #{id}
+                      {closedMarkets.includes(id) && <span className="ml-2 text-xs text-red-400">closed</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </Card>
 
-              <Card>
-                <h2 className="text-xl font-semibold mb-3 text-purple-300">Transactions</h2>
-                {txs.length === 0 ? (
-                  <div className="text-gray-400 text-sm">No transactions yet.</div>
-                ) : (
-                  <div className="max-h-64 overflow-auto">
-                    <table className="w-full text-sm">
-                      <thead>
-                        <tr className="border-b border-gray-700">
-                          <th className="p-2 text-left text-gray-400">When</th>
-                          <th className="p-2 text-left text-gray-400">Type</th>
-                          <th className="p-2 text-left text-gray-400">Market</th>
-                          <th className="p-2 text-left text-gray-400">Details</th>
-                          <th className="p-2 text-left text-gray-400">Tx</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {txs.map((t, i) => (
-                          <tr key={i} className="border-b border-gray-800">
-                            <td className="p-2">{new Date(t.ts).toLocaleTimeString()}</td>
-                            <td className="p-2">
-                              <span className={
-                                t.side === "buy" ? "text-green-400" :
-                                t.side === "sell" ? "text-red-400" : "text-blue-400"
-                              }>
-                                {t.side.toUpperCase()}
-                              </span>
-                            </td>
-                            <td className="p-2">#{t.marketId}</td>
-                            <td className="p-2 font-mono text-xs">
-                              {t.side === "create"
-                                ? "—"
-                                : `o${t.outcome} ΔQ=${t.qty} ${t.side === "buy" ? "cost" : "payout"}≈${t.costOrPayout?.toFixed(6)}`}
-                            </td>
-                            <td className="p-2">
-                              <a
-                                href={`https://eth-sepolia.blockscout.com/tx/${t.hash}`}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="text-blue-400 underline text-xs"
-                              >
-                                {t.hash.slice(0, 6)}…{t.hash.slice(-4)}
-                              </a>
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
-              </Card>
-            </div>
+            <TransactionsPanel store={txStore} version={txVersion} txUrl={txUrl} network={networkLabel} error={txStoreError} />
+
+            <EventHistory indexer={indexer} account={account} txUrl={txUrl} onPickMarket={setMarketId} />
+
+            <PortfolioPanel backend={backend} indexer={indexer} account={account} knownMarkets={recentMarkets} />
 
             {/* Scenario Runner */}
             <ScenarioRunner
               account={account}
-              walletClient={walletClient}
-              marketIdA={marketId}
-              marketIdB={compareMarketId}
+              backend={backend}
+              loadedMarkets={loadedMarkets}
+              defaultSlippagePct={slippage}
               stepsK={steps}
+              closedMarkets={closedMarkets}
               onAfterEach={onAfterEach}
-              onTxPush={onTxPushMemo}
+              trackTx={trackTx}
+              network={networkLabel}
+            />
+
+            <MonteCarloPanel />
+
+            <LiveFeedPanel
+              feed={feed}
+              updatedBlock={updatedBlock}
+              live={live}
+              onLiveChange={setLive}
+              pauseWhileQuoting={pauseWhileQuoting}
+              onPauseWhileQuotingChange={setPauseWhileQuoting}
+              paused={livePaused}
+              missed={missed}
+              watched={watchedMarkets}
+              error={liveError}
+              onRefresh={refresh}
+              txUrl={txUrl}
             />
 
             {/* Market States */}
+            <TxErrorNotice error={txErrors.market ?? null} onDismiss={() => clearTxError("market")} />
+            {(state || stateB) && (
+              <div className="flex flex-wrap items-center justify-end gap-2 mb-2 text-sm">
+                <span className="text-gray-400">Export state() snapshot:</span>
+                <Button onClick={() => exportStates("json")} variant="secondary">JSON</Button>
+                <Button onClick={() => exportStates("csv")} variant="secondary">CSV</Button>
+              </div>
+            )}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
               <Card>
-                <PricesTable s={state} title="Market A" />
-                <LivePriceChart label="Current Prices (Market A)" s={state} />
+                <PricesTable s={state} title="Market A" onClose={() => closeMarket(Number(marketId))} headroom={headroomA} />
+                <SettlementPanel s={state} />
+                <LivePriceChart label={`${state?.meta.closed ? "Final" : "Current"} Prices (Market A)`} s={state} />
                 <BarChartPrices label="Post-Trade Prices (Market A)" prices={postPrices} />
                 {postPrices && state && (
                   <div className="mt-2 text-xs text-gray-400">
@@ -1260,8 +3452,14 @@ export default function App() {
               </Card>
               
               <Card>
-                <PricesTable s={stateB} title="Market B (Comparison)" />
-                <LivePriceChart label="Current Prices (Market B)" s={stateB} />
+                <PricesTable
+                  s={stateB}
+                  title="Market B (Comparison)"
+                  onClose={() => closeMarket(Number(compareMarketId))}
+                  headroom={headroomB}
+                />
+                <SettlementPanel s={stateB} />
+                <LivePriceChart label={`${stateB?.meta.closed ? "Final" : "Current"} Prices (Market B)`} s={stateB} />
                 <BarChartPrices label="Post-Trade Prices (Market B)" prices={postPricesB} />
                 {postPricesB && stateB && (
                 <div className="mt-2 text-xs text-gray-400">
@@ -1283,11 +3481,18 @@ export default function App() {
               </Card>
             </div>
 
+            <DepthPanel stateA={state} stateB={stateB} marketIdA={marketId} marketIdB={compareMarketId} stepsK={steps} />
+
+            <StepConvergencePanel state={state} marketId={marketId} onUseK={setSteps} />
+
             {/* Trading Interface */}
             <Card>
               <h2 className="text-2xl font-semibold mb-4 text-purple-300">Execute Trade</h2>
+              {tradingClosed && (
+                <div className="text-sm text-red-400 mb-4">Market #{marketId} is closed — trading is disabled.</div>
+              )}
               
-              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-4">
                 <Select
                   label="Side"
                   value={side}
@@ -1297,6 +3502,17 @@ export default function App() {
                     { value: "sell", label: "Sell Shares" },
                   ]}
                 />
+
+                <Select
+                  label="Size by"
+                  value={sizeBy}
+                  onChange={(e) => setSizeBy(e.target.value as "qty" | "amount" | "price")}
+                  options={[
+                    { value: "qty", label: "Quantity (ΔQ)" },
+                    { value: "amount", label: side === "buy" ? "Budget (mUSD)" : "Payout (mUSD)" },
+                    { value: "price", label: "Target price" },
+                  ]}
+                />
                 
                 <Input
                   label="Outcome"
@@ -1306,22 +3522,51 @@ export default function App() {
                   min={0}
                 />
                 
-                <Input
-                  label="Quantity (ΔQ)"
-                  type="number"
-                  value={tradeQty}
-                  onChange={(e) => setTradeQty(Number(e.target.value))}
-                  step="0.1"
-                />
+                {sizeBy === "qty" ? (
+                  <Input
+                    label="Quantity (ΔQ)"
+                    type="number"
+                    value={tradeQty}
+                    onChange={(e) => setTradeQty(Number(e.target.value))}
+                    step="0.1"
+                  />
+                ) : sizeBy === "price" ? (
+                  <Input
+                    label={`Target p${tradeOutcome} (0–1)`}
+                    type="number"
+                    value={targetPrice}
+                    onChange={(e) => setTargetPrice(Number(e.target.value))}
+                    step="0.01"
+                    min={0}
+                    max={1}
+                  />
+                ) : (
+                  <Input
+                    label={side === "buy" ? "Spend (mUSD)" : "Receive (mUSD)"}
+                    type="number"
+                    value={amountTarget}
+                    onChange={(e) => setAmountTarget(Number(e.target.value))}
+                    step="0.1"
+                  />
+                )}
                 
-                <Input
-                  label="Steps (K)"
-                  type="number"
-                  value={steps}
-                  onChange={(e) => setSteps(Number(e.target.value))}
-                  min={1}
-                  max={64}
-                />
+                <div>
+                  <Input
+                    label="Steps (K)"
+                    type="number"
+                    value={steps}
+                    onChange={(e) => setSteps(Number(e.target.value))}
+                    min={1}
+                    max={64}
+                  />
+                  {kEstimate && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      {state && exactQuotes(state.meta.mech)
+                        ? `${mechName(state.meta.mech)}: exact for any K`
+                        : `≈ ${(kEstimate.relError * 100).toExponential(1)}% off continuous`}
+                    </div>
+                  )}
+                </div>
                 
                 <Input
                   label="Slippage %"
@@ -1336,10 +3581,30 @@ export default function App() {
                 <div className="bg-gray-900 rounded-lg p-4">
                   <div className="text-sm text-gray-400 mb-2">Market A Quote</div>
                   {quoteCost !== null ? (
-                    <div className="text-2xl font-bold text-yellow-400">
-                      {side === "buy" ? "Cost: " : "Payout: "}
-                      {fromWad(quoteCost).toFixed(6)}
-                    </div>
+                    <>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {side === "buy" ? "Cost: " : "Payout: "}
+                        {fromWad(quoteCost).toFixed(6)}
+                      </div>
+                      <div className="text-sm text-gray-400 mt-1 font-mono">
+                        ΔQ = {tradeQty} · avg price {(fromWad(quoteCost) / tradeQty).toFixed(6)}
+                      </div>
+                      {sizeBy === "price" && state && postPrices && (
+                        <div className="text-sm text-gray-400 mt-1 font-mono">
+                          p{tradeOutcome}: {(fromWad(state.prices[tradeOutcome]) * 100).toFixed(2)}% → {(fromWad(postPrices[tradeOutcome]) * 100).toFixed(2)}%
+                          {" "}(target {(targetPrice * 100).toFixed(2)}%)
+                        </div>
+                      )}
+                      {sized?.capped && (
+                        <div className="text-sm text-yellow-400 mt-1">
+                          {sizeBy === "price"
+                            ? state && state.q[tradeOutcome] - sized.dQWad >= SIZE_TICK
+                              ? `Capped at your holdings — selling all ${fromWad(sized.dQWad)} of your shares stops short of the target.`
+                              : `Target out of reach — selling all ${fromWad(sized.dQWad)} outstanding shares stops short of it.`
+                            : `Capped at your holdings — selling all ${fromWad(sized.dQWad)} shares pays less than the target.`}
+                        </div>
+                      )}
+                    </>
                   ) : (
                     <div className="text-gray-500">Click Quote to see price</div>
                   )}
@@ -1358,15 +3623,46 @@ export default function App() {
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <Button onClick={quote} variant="secondary">
+              <TxErrorNotice error={txErrors.trade ?? null} onDismiss={() => clearTxError("trade")} />
+
+              {rangeBlock && (
+                <div className="text-sm text-red-400 mb-4">
+                  ΔQ = {tradeQty} of outcome {tradeOutcome} is past the tradable range ({rangeBlock} before exp() overflows
+                  with ExpInputTooLarge). Lower the quantity.
+                </div>
+              )}
+
+              {quoteCost !== null && missed > 0 && (
+                <div className="text-sm text-yellow-400 mb-4">
+                  {missed} new event{missed === 1 ? "" : "s"} on the loaded markets since this quote; it may be stale. Get a
+                  new quote before executing.
+                </div>
+              )}
+
+              <div className={`grid gap-4 ${sizeBy === "qty" ? "grid-cols-2" : "grid-cols-3"}`}>
+                <Button onClick={quote} variant="secondary" disabled={tradingClosed || !!rangeBlock}>
                   Get Quote
                 </Button>
-                <Button onClick={execute} variant="success">
+                <Button onClick={() => execute()} variant="success" disabled={tradingClosed || !!rangeBlock}>
                   Execute Trade
                 </Button>
+                {sizeBy !== "qty" && (
+                  <Button onClick={quoteAndExecute} variant="success" disabled={tradingClosed}>
+                    Quote &amp; Execute
+                  </Button>
+                )}
               </div>
             </Card>
+
+            <TradeTicketPanel
+              account={account}
+              backend={backend}
+              marketId={marketId}
+              stepsK={steps}
+              closed={tradingClosed}
+              onAfterEach={onAfterEach}
+              trackTx={trackTx}
+            />
           </main>
         </div>
       );
@@ -0,0 +1,204 @@
+// ABIs for the mUSD collateral token and LsLmsrAMM (see contracts/src/interfaces).
+
+export const ERC20_ABI = [
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "allowance",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "approve",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ type: "bool" }],
+  },
+] as const;
+
+export const AMM_EVENTS = [
+  {
+    type: "event",
+    name: "MarketCreated",
+    inputs: [
+      { name: "marketId", type: "uint256", indexed: true },
+      { name: "mech", type: "uint8", indexed: false },
+      { name: "n", type: "uint8", indexed: false },
+      { name: "b0Wad", type: "uint256", indexed: false },
+      { name: "alphaWad", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Trade",
+    inputs: [
+      { name: "marketId", type: "uint256", indexed: true },
+      { name: "trader", type: "address", indexed: true },
+      { name: "outcome", type: "uint8", indexed: false },
+      { name: "isBuy", type: "bool", indexed: false },
+      { name: "dQWad", type: "uint256", indexed: false },
+      { name: "costWad", type: "uint256", indexed: false },
+      { name: "tAfterWad", type: "uint256", indexed: false },
+      { name: "bAfterWad", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "MarketClosed",
+    inputs: [{ name: "marketId", type: "uint256", indexed: true }],
+  },
+] as const;
+
+export const AMM_ERRORS = [
+  { type: "error", name: "InvalidOutcome", inputs: [] },
+  { type: "error", name: "InvalidN", inputs: [] },
+  { type: "error", name: "InvalidMechanism", inputs: [] },
+  { type: "error", name: "MarketClosedErr", inputs: [] },
+  { type: "error", name: "SellExceedsHoldings", inputs: [] },
+  { type: "error", name: "SlippageExceeded", inputs: [] },
+  { type: "error", name: "StepsOutOfRange", inputs: [] },
+  { type: "error", name: "NotImplemented", inputs: [] },
+  { type: "error", name: "ExpInputTooLarge", inputs: [] },
+  { type: "error", name: "NegativeQ", inputs: [] },
+  { type: "error", name: "NotEnoughQToSell", inputs: [] },
+  // PRBMath UD60x18, bubbled up from exp / ln
+  { type: "error", name: "PRBMath_UD60x18_Exp_InputTooBig", inputs: [{ name: "x", type: "uint256" }] },
+  { type: "error", name: "PRBMath_UD60x18_Exp2_InputTooBig", inputs: [{ name: "x", type: "uint256" }] },
+  { type: "error", name: "PRBMath_UD60x18_Log_InputTooSmall", inputs: [{ name: "x", type: "uint256" }] },
+] as const;
+
+export const AMM_ABI = [
+  {
+    type: "function",
+    name: "createMarket",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "mech", type: "uint8" },
+      { name: "n", type: "uint8" },
+      { name: "b0Wad", type: "uint256" },
+      { name: "alphaWad", type: "uint256" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "closeMarket",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "marketId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "state",
+    stateMutability: "view",
+    inputs: [{ name: "marketId", type: "uint256" }],
+    outputs: [
+      {
+        components: [
+          { name: "mech", type: "uint8" },
+          { name: "n", type: "uint8" },
+          { name: "b0Wad", type: "uint256" },
+          { name: "alphaWad", type: "uint256" },
+          { name: "collateral", type: "uint256" },
+          { name: "closed", type: "bool" },
+        ],
+        type: "tuple",
+      },
+      { type: "uint256[]" },
+      { type: "uint256" },
+      { type: "uint256" },
+      { type: "uint256[]" },
+    ],
+  },
+  {
+    type: "function",
+    name: "prices",
+    stateMutability: "view",
+    inputs: [{ name: "marketId", type: "uint256" }],
+    outputs: [{ type: "uint256[]" }],
+  },
+  {
+    type: "function",
+    name: "quoteBuy",
+    stateMutability: "view",
+    inputs: [
+      { name: "marketId", type: "uint256" },
+      { name: "outcome", type: "uint8" },
+      { name: "dQWad", type: "uint256" },
+      { name: "steps", type: "uint16" },
+    ],
+    outputs: [{ type: "uint256" }, { type: "uint256[]" }],
+  },
+  {
+    type: "function",
+    name: "quoteSell",
+    stateMutability: "view",
+    inputs: [
+      { name: "marketId", type: "uint256" },
+      { name: "outcome", type: "uint8" },
+      { name: "dQWad", type: "uint256" },
+      { name: "steps", type: "uint16" },
+    ],
+    outputs: [{ type: "int256" }, { type: "uint256[]" }],
+  },
+  {
+    type: "function",
+    name: "buy",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "marketId", type: "uint256" },
+      { name: "outcome", type: "uint8" },
+      { name: "dQWad", type: "uint256" },
+      { name: "steps", type: "uint16" },
+      { name: "maxCostWad", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "sell",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "marketId", type: "uint256" },
+      { name: "outcome", type: "uint8" },
+      { name: "dQWad", type: "uint256" },
+      { name: "steps", type: "uint16" },
+      { name: "minPayoutWad", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    type: "function",
+    name: "collateralToken",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "address" }],
+  },
+  {
+    type: "function",
+    name: "userShares",
+    stateMutability: "view",
+    inputs: [
+      { name: "marketId", type: "uint256" },
+      { name: "user", type: "address" },
+      { name: "outcome", type: "uint8" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+  ...AMM_EVENTS,
+  ...AMM_ERRORS,
+] as const;
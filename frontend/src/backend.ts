@@ -0,0 +1,305 @@
+// The AMM surface the UI talks to. Two implementations: the deployed LsLmsrAMM
+// through viem (this file) and the in-memory simulator (simBackend.ts).
+import { WaitForTransactionReceiptTimeoutError, parseEventLogs } from "viem";
+import type { Chain, GetLogsReturnType, PublicClient, WalletClient } from "viem";
+import { AMM_ABI, AMM_EVENTS, ERC20_ABI } from "./abi";
+import type { MarketState } from "./lsLmsrMath";
+
+export type Hex = `0x${string}`;
+export type BackendMode = "chain" | "sim";
+
+/** `bCapWad` is for the simulator's capped-b model; LsLmsrAMM has no such parameter. */
+export type CreateMarketArgs = { mech: number; n: number; b0Wad: bigint; alphaWad: bigint; bCapWad?: bigint };
+
+// ---------- Events (ILsLmsr) ----------
+type EventBase = { marketId: number; blockNumber: bigint; txHash: Hex; logIndex: number };
+
+export type MarketCreatedEvent = EventBase & { kind: "MarketCreated"; mech: number; n: number; b0Wad: bigint; alphaWad: bigint };
+export type TradeEvent = EventBase & {
+  kind: "Trade";
+  trader: Hex;
+  outcome: number;
+  isBuy: boolean;
+  dQWad: bigint;
+  /** paid on buys, received on sells */
+  costWad: bigint;
+  tAfterWad: bigint;
+  bAfterWad: bigint;
+};
+export type MarketClosedEvent = EventBase & { kind: "MarketClosed" };
+export type AmmEvent = MarketCreatedEvent | TradeEvent | MarketClosedEvent;
+
+// ---------- Receipts ----------
+export type TxReceipt = {
+  /** the mined tx; differs from the submitted hash when the wallet replaced it */
+  hash: Hex;
+  status: "success" | "reverted";
+  blockNumber: bigint;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  /** AMM events the tx emitted */
+  events: AmmEvent[];
+  /** why the submitted tx was replaced (speed-up, cancel), if it was */
+  replaced?: "replaced" | "repriced" | "cancelled";
+};
+
+/** waitForTx: the tx was mined but reverted. */
+export class TxRevertedError extends Error {
+  readonly receipt: TxReceipt;
+
+  constructor(receipt: TxReceipt) {
+    super(`Transaction ${receipt.hash} reverted on-chain`);
+    this.name = "TxRevertedError";
+    this.receipt = receipt;
+  }
+}
+
+/** waitForTx: the wallet replaced the tx with a cancellation; `receipt` is the replacement's. */
+export class TxCancelledError extends Error {
+  readonly receipt: TxReceipt;
+
+  constructor(hash: Hex, receipt: TxReceipt) {
+    super(`Transaction ${hash} was cancelled by ${receipt.hash}`);
+    this.name = "TxCancelledError";
+    this.receipt = receipt;
+  }
+}
+
+/** waitForTx: the tx never showed up (dropped from the mempool, or still pending at the timeout). */
+export class TxDroppedError extends Error {
+  readonly hash: Hex;
+
+  constructor(hash: Hex) {
+    super(`Transaction ${hash} was not mined`);
+    this.name = "TxDroppedError";
+    this.hash = hash;
+  }
+}
+
+export interface AmmBackend {
+  readonly mode: BackendMode;
+  readonly ammAddress: Hex;
+
+  // views
+  collateralToken(): Promise<Hex>;
+  state(marketId: number): Promise<MarketState>;
+  quoteBuy(marketId: number, outcome: number, dQWad: bigint, steps: number): Promise<readonly [bigint, readonly bigint[]]>;
+  quoteSell(marketId: number, outcome: number, dQWad: bigint, steps: number): Promise<readonly [bigint, readonly bigint[]]>;
+  userShares(marketId: number, user: Hex, outcome: number): Promise<bigint>;
+  balanceOf(user: Hex): Promise<bigint>;
+  allowance(user: Hex): Promise<bigint>;
+  blockNumber(): Promise<bigint>;
+  /** AMM events in [fromBlock, toBlock], oldest first */
+  getEvents(fromBlock: bigint, toBlock: bigint): Promise<AmmEvent[]>;
+  /** Calls onEvents with new AMM events as blocks include them; returns the unsubscribe. */
+  watchEvents(onEvents: (events: AmmEvent[]) => void, onError?: (e: Error) => void): () => void;
+
+  // writes: resolve with the tx hash once submitted, use waitForTx for inclusion
+  createMarket(account: Hex, args: CreateMarketArgs): Promise<{ marketId: number; hash: Hex }>;
+  /** Stops trading for good; the contract has no access control on this. */
+  closeMarket(account: Hex, marketId: number): Promise<Hex>;
+  buy(account: Hex, marketId: number, outcome: number, dQWad: bigint, steps: number, maxCostWad: bigint): Promise<Hex>;
+  sell(account: Hex, marketId: number, outcome: number, dQWad: bigint, steps: number, minPayoutWad: bigint): Promise<Hex>;
+  approve(account: Hex, amount: bigint): Promise<Hex>;
+  /**
+   * Resolves once mined; throws TxRevertedError on a revert, TxCancelledError if the wallet
+   * cancelled it, or TxDroppedError after `timeoutMs` if the tx never shows up.
+   */
+  waitForTx(hash: Hex, opts?: { timeoutMs?: number }): Promise<TxReceipt>;
+}
+
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+// ---------- On-chain backend ----------
+type AmmLog = GetLogsReturnType<undefined, typeof AMM_EVENTS>[number];
+
+const isMined = <L extends { blockNumber: bigint | null }>(log: L): log is L & AmmLog => log.blockNumber !== null;
+
+function toAmmEvent(log: AmmLog): AmmEvent {
+  const base = {
+    marketId: Number(log.args.marketId),
+    blockNumber: log.blockNumber,
+    txHash: log.transactionHash,
+    logIndex: log.logIndex,
+  };
+  switch (log.eventName) {
+    case "MarketCreated": {
+      const { mech, n, b0Wad, alphaWad } = log.args;
+      return { ...base, kind: "MarketCreated", mech: mech!, n: n!, b0Wad: b0Wad!, alphaWad: alphaWad! };
+    }
+    case "Trade": {
+      const { trader, outcome, isBuy, dQWad, costWad, tAfterWad, bAfterWad } = log.args;
+      return {
+        ...base, kind: "Trade", trader: trader!, outcome: outcome!, isBuy: isBuy!,
+        dQWad: dQWad!, costWad: costWad!, tAfterWad: tAfterWad!, bAfterWad: bAfterWad!,
+      };
+    }
+    case "MarketClosed":
+      return { ...base, kind: "MarketClosed" };
+  }
+}
+
+export function createChainBackend(opts: {
+  publicClient: PublicClient;
+  walletClient: WalletClient | null;
+  chain: Chain;
+  ammAddress: Hex;
+}): AmmBackend {
+  const { publicClient, walletClient, chain, ammAddress } = opts;
+
+  const wallet = () => {
+    if (!walletClient) throw new Error("Connect wallet");
+    return walletClient;
+  };
+
+  let collateral: Hex | null = null;
+  const collateralToken = async () => {
+    if (!collateral) {
+      collateral = await publicClient.readContract({
+        address: ammAddress, abi: AMM_ABI, functionName: "collateralToken",
+      });
+    }
+    return collateral;
+  };
+
+  return {
+    mode: "chain",
+    ammAddress,
+    collateralToken,
+
+    async state(marketId) {
+      const [meta, q, T, bEff, prices] = await publicClient.readContract({
+        address: ammAddress, abi: AMM_ABI, functionName: "state", args: [BigInt(marketId)],
+      });
+      return { meta, q, T, bEff, prices };
+    },
+
+    quoteBuy(marketId, outcome, dQWad, steps) {
+      return publicClient.readContract({
+        address: ammAddress, abi: AMM_ABI, functionName: "quoteBuy", args: [BigInt(marketId), outcome, dQWad, steps],
+      });
+    },
+
+    quoteSell(marketId, outcome, dQWad, steps) {
+      return publicClient.readContract({
+        address: ammAddress, abi: AMM_ABI, functionName: "quoteSell", args: [BigInt(marketId), outcome, dQWad, steps],
+      });
+    },
+
+    userShares(marketId, user, outcome) {
+      return publicClient.readContract({
+        address: ammAddress, abi: AMM_ABI, functionName: "userShares", args: [BigInt(marketId), user, outcome],
+      });
+    },
+
+    async balanceOf(user) {
+      return publicClient.readContract({
+        address: await collateralToken(), abi: ERC20_ABI, functionName: "balanceOf", args: [user],
+      });
+    },
+
+    async allowance(user) {
+      return publicClient.readContract({
+        address: await collateralToken(), abi: ERC20_ABI, functionName: "allowance", args: [user, ammAddress],
+      });
+    },
+
+    blockNumber() {
+      return publicClient.getBlockNumber();
+    },
+
+    async getEvents(fromBlock, toBlock) {
+      const logs = await publicClient.getLogs({ address: ammAddress, events: AMM_EVENTS, fromBlock, toBlock });
+      return logs.map(toAmmEvent);
+    },
+
+    watchEvents(onEvents, onError) {
+      return publicClient.watchContractEvent({
+        address: ammAddress,
+        abi: AMM_EVENTS,
+        // pending logs have no block yet; they come again once mined
+        onLogs: (logs) => onEvents(logs.filter(isMined).map(toAmmEvent)),
+        onError,
+      });
+    },
+
+    // every write is dry-run with simulateContract first, so a revert surfaces as a decodable
+    // ContractFunctionRevertedError (see reverts.ts) before the wallet prompt
+    async createMarket(account, { mech, n, b0Wad, alphaWad }) {
+      const w = wallet();
+      const sim = await publicClient.simulateContract({
+        chain, address: ammAddress, abi: AMM_ABI, functionName: "createMarket", account,
+        args: [mech, n, b0Wad, alphaWad],
+      });
+      const hash = await w.writeContract(sim.request);
+      return { marketId: Number(sim.result), hash };
+    },
+
+    async closeMarket(account, marketId) {
+      const w = wallet();
+      const { request } = await publicClient.simulateContract({
+        chain, address: ammAddress, abi: AMM_ABI, functionName: "closeMarket", account, args: [BigInt(marketId)],
+      });
+      return w.writeContract(request);
+    },
+
+    async buy(account, marketId, outcome, dQWad, steps, maxCostWad) {
+      const w = wallet();
+      const { request } = await publicClient.simulateContract({
+        chain, address: ammAddress, abi: AMM_ABI, functionName: "buy", account,
+        args: [BigInt(marketId), outcome, dQWad, steps, maxCostWad],
+      });
+      return w.writeContract(request);
+    },
+
+    async sell(account, marketId, outcome, dQWad, steps, minPayoutWad) {
+      const w = wallet();
+      const { request } = await publicClient.simulateContract({
+        chain, address: ammAddress, abi: AMM_ABI, functionName: "sell", account,
+        args: [BigInt(marketId), outcome, dQWad, steps, minPayoutWad],
+      });
+      return w.writeContract(request);
+    },
+
+    async approve(account, amount) {
+      const w = wallet();
+      const { request } = await publicClient.simulateContract({
+        chain, address: await collateralToken(), abi: ERC20_ABI, functionName: "approve", account,
+        args: [ammAddress, amount],
+      });
+      return w.writeContract(request);
+    },
+
+    async waitForTx(hash, opts) {
+      let replaced: TxReceipt["replaced"];
+      let r;
+      try {
+        r = await publicClient.waitForTransactionReceipt({
+          hash,
+          timeout: opts?.timeoutMs,
+          onReplaced: (x) => {
+            replaced = x.reason;
+          },
+        });
+      } catch (e) {
+        if (e instanceof WaitForTransactionReceiptTimeoutError) throw new TxDroppedError(hash);
+        throw e;
+      }
+      const own = r.logs.filter((l) => l.address.toLowerCase() === ammAddress.toLowerCase());
+      const receipt: TxReceipt = {
+        hash: r.transactionHash,
+        status: r.status,
+        blockNumber: r.blockNumber,
+        gasUsed: r.gasUsed,
+        effectiveGasPrice: r.effectiveGasPrice,
+        events: parseEventLogs({ abi: AMM_EVENTS, logs: own }).map(toAmmEvent),
+        replaced,
+      };
+      // state moved between the dry-run and inclusion
+      if (r.status === "reverted") throw new TxRevertedError(receipt);
+      // mined, but as a no-op in place of the tx that was asked for
+      if (replaced === "cancelled") throw new TxCancelledError(hash, receipt);
+      return receipt;
+    },
+  };
+}
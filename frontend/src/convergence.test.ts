@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { MAX_STEPS, Mechanism, WAD, quoteBuy, stateFromQ } from "./lsLmsrMath";
+import { analyzeSteps, continuousAmount, recommendK, stepError } from "./convergence";
+import type { KPoint } from "./convergence";
+
+const market = (mech: Mechanism, q: bigint[], alphaWad = WAD / 10n) =>
+  stateFromQ({ mech, n: q.length, b0Wad: 5n * WAD, alphaWad, collateral: 0n, closed: false }, q);
+
+describe("continuousAmount", () => {
+  it("matches the closed-form LMSR cost at fixed b", () => {
+    const s = market(Mechanism.LMSR, [3n * WAD, WAD, 0n], 0n);
+    const exact = Number(quoteBuy(s, 1, 4n * WAD, 1).amountWad) / 1e18;
+    expect(continuousAmount(s, "buy", 1, 4n * WAD)).toBeCloseTo(exact, 12);
+  });
+
+  it("is the LS-LMSR quote itself", () => {
+    const s = market(Mechanism.LS_LMSR, [10n * WAD, 10n * WAD, 10n * WAD]);
+    expect(continuousAmount(s, "buy", 0, 2n * WAD)).toBe(Number(quoteBuy(s, 0, 2n * WAD, 1).amountWad) / 1e18);
+  });
+});
+
+describe("analyzeSteps", () => {
+  const s = market(Mechanism.LS_PROXY, [0n, 0n, 0n]);
+
+  it("quotes K = 1…MAX_STEPS, converging on the reference", () => {
+    const { reference, points } = analyzeSteps(s, "buy", 0, 10n * WAD);
+    expect(points.map((p) => p.k)).toEqual(Array.from({ length: MAX_STEPS }, (_, i) => i + 1));
+    expect(points[MAX_STEPS - 1].relError).toBeLessThan(points[0].relError);
+    expect(points[MAX_STEPS - 1].relError).toBeLessThan(1e-3);
+    for (const p of points) expect(p.error).toBeCloseTo(p.amount - reference, 12);
+  });
+
+  it("sells converge as well", () => {
+    const sold = market(Mechanism.LS_PROXY, [10n * WAD, 3n * WAD, WAD]);
+    const { points } = analyzeSteps(sold, "sell", 0, 4n * WAD);
+    expect(points[MAX_STEPS - 1].relError).toBeLessThan(points[0].relError);
+  });
+
+  it("the inline estimate agrees with the full reference to one significant digit", () => {
+    const full = analyzeSteps(s, "buy", 0, 10n * WAD).points[7];
+    const inline = stepError(s, "buy", 0, 10n * WAD, 8);
+    expect(inline.amount).toBe(full.amount);
+    expect(Math.abs(inline.error - full.error)).toBeLessThan(Math.abs(full.error) / 10);
+  });
+
+  it("throws the math error of an invalid trade", () => {
+    expect(() => analyzeSteps(s, "sell", 0, WAD)).toThrow();
+  });
+});
+
+describe("recommendK", () => {
+  const points = [3e-3, 8e-4, 2e-4, 9e-5].map((relError, i): KPoint => ({ k: i + 1, amount: 0, error: 0, relError, pricesAfter: [] }));
+
+  it("picks the smallest K within the tolerance", () => {
+    expect(recommendK(points, 1e-3)).toBe(2);
+    expect(recommendK(points, 1e-4)).toBe(4);
+  });
+
+  it("returns null when no K is within it", () => {
+    expect(recommendK(points, 1e-5)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// Step-count (K) convergence for LS-PROXY quotes. costLsProxyStepped freezes b for
+// each of K chunks; as K → ∞ the cost tends to ∫ p_i(q(s), b(T(s))) ds along the
+// trade, which we evaluate off-chain in float64 with Simpson's rule as the reference.
+// The capped and log b(T) models are stepped the same way.
+import { MAX_STEPS, Mechanism, bEffOf, quoteLocal } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+
+const fromWadF = (x: bigint) => Number(x) / 1e18;
+
+/** Simpson intervals for the reference integral; p_i is smooth, so this is far below WAD noise. */
+const REFERENCE_INTERVALS = 4096;
+/** Enough for the one-significant-digit inline estimate, and cheap enough to redo per keystroke. */
+const ESTIMATE_INTERVALS = 256;
+
+export type KPoint = {
+  k: number;
+  /** stepped cost (buy) or payout (sell), mUSD */
+  amount: number;
+  /** amount − reference */
+  error: number;
+  /** |error| / reference */
+  relError: number;
+  pricesAfter: number[];
+};
+
+export type ConvergenceResult = {
+  reference: number;
+  points: KPoint[];
+};
+
+/** Stable softmax component i of q/b. */
+function priceF(q: number[], b: number, i: number): number {
+  const m = Math.max(...q) / b;
+  let sum = 0;
+  for (const qj of q) sum += Math.exp(qj / b - m);
+  return Math.exp(q[i] / b - m) / sum;
+}
+
+/**
+ * Continuous-b cost (buy) or payout (sell) of trading dQ of `outcome`:
+ * ∫₀^dQ p_i(q ± s·e_i, b(T ± s)) ds, over `intervals` Simpson intervals (even). LS-LMSR
+ * quotes are already exact and are their own reference.
+ */
+export function continuousAmount(
+  s: MarketState,
+  side: "buy" | "sell",
+  outcome: number,
+  dQWad: bigint,
+  intervals = REFERENCE_INTERVALS,
+): number {
+  if (s.meta.mech === Mechanism.LS_LMSR) return fromWadF(quoteLocal(s, side, outcome, dQWad, 1).amountWad);
+  const q = s.q.map(fromWadF);
+  const dQ = fromWadF(dQWad);
+  const sign = side === "buy" ? 1 : -1;
+  const bAt = (x: number) => fromWadF(bEffOf(s.meta, s.T + BigInt(Math.round(sign * x * 1e18))));
+
+  const f = (x: number) => {
+    const qx = [...q];
+    qx[outcome] += sign * x;
+    return priceF(qx, bAt(x), outcome);
+  };
+
+  const n = intervals;
+  const h = dQ / n;
+  let acc = f(0) + f(dQ);
+  for (let j = 1; j < n; j++) acc += (j % 2 ? 4 : 2) * f(j * h);
+  return (acc * h) / 3;
+}
+
+/** Error of one stepped quote against a coarser continuous reference, for inline hints. */
+export function stepError(s: MarketState, side: "buy" | "sell", outcome: number, dQWad: bigint, k: number): KPoint {
+  return kPoint(s, side, outcome, dQWad, k, continuousAmount(s, side, outcome, dQWad, ESTIMATE_INTERVALS));
+}
+
+function kPoint(s: MarketState, side: "buy" | "sell", outcome: number, dQWad: bigint, k: number, reference: number): KPoint {
+  const r = quoteLocal(s, side, outcome, dQWad, k);
+  const amount = fromWadF(r.amountWad);
+  const error = amount - reference;
+  return { k, amount, error, relError: reference !== 0 ? Math.abs(error) / Math.abs(reference) : 0, pricesAfter: r.pricesAfter.map(fromWadF) };
+}
+
+/** Quotes the trade for K = 1…MAX_STEPS. Throws the math error if the trade itself is invalid. */
+export function analyzeSteps(s: MarketState, side: "buy" | "sell", outcome: number, dQWad: bigint): ConvergenceResult {
+  const reference = continuousAmount(s, side, outcome, dQWad);
+  const points = Array.from({ length: MAX_STEPS }, (_, i) => kPoint(s, side, outcome, dQWad, i + 1, reference));
+  return { reference, points };
+}
+
+/** Smallest K whose relative error is within `tolerance` (e.g. 1e-4), null if even K = 64 misses it. */
+export function recommendK(points: readonly KPoint[], tolerance: number): number | null {
+  return points.find((p) => p.relError <= tolerance)?.k ?? null;
+}
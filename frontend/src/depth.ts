@@ -0,0 +1,47 @@
+// Depth / price-impact curves: what a single trade of size ΔQ in one outcome would cost,
+// its average price and the marginal price it leaves behind, for buys and sells from the
+// current `state()`. Sells go up to q_i (the AMM can't sell below zero).
+import { WAD, quoteLocal } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+
+const fromWadF = (x: bigint) => Number(x) / 1e18;
+
+export type DepthPoint = {
+  /** signed ΔQ: > 0 buys, < 0 sells */
+  dQ: number;
+  /** cash into the AMM: the cost of a buy, minus the payout of a sell */
+  totalCost: number;
+  /** |totalCost| / |ΔQ|; the current price at ΔQ = 0 */
+  avgPrice: number;
+  /** p_i after the trade */
+  marginalPrice: number;
+};
+
+/**
+ * Curve for one outcome on a symmetric grid of `points` sizes per side up to `maxSize`.
+ * Sizes the AMM would reject (past q_i, exp overflow) are left out.
+ */
+export function depthCurve(s: MarketState, outcome: number, maxSize: number, points: number, steps: number): DepthPoint[] {
+  const p0 = fromWadF(s.prices[outcome]);
+  const out: DepthPoint[] = [{ dQ: 0, totalCost: 0, avgPrice: p0, marginalPrice: p0 }];
+  for (const side of ["buy", "sell"] as const) {
+    for (let k = 1; k <= points; k++) {
+      const size = (maxSize * k) / points;
+      const dQWad = BigInt(Math.round(size * 1e6)) * (WAD / 1_000_000n);
+      if (side === "sell" && dQWad > s.q[outcome]) break;
+      try {
+        const r = quoteLocal(s, side, outcome, dQWad, steps);
+        const amount = fromWadF(r.amountWad);
+        out.push({
+          dQ: side === "buy" ? size : -size,
+          totalCost: side === "buy" ? amount : -amount,
+          avgPrice: amount / size,
+          marginalPrice: fromWadF(r.pricesAfter[outcome]),
+        });
+      } catch {
+        break;
+      }
+    }
+  }
+  return out.sort((a, b) => a.dQ - b.dQ);
+}
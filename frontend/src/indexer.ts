@@ -0,0 +1,190 @@
+// Event indexer: pages through AMM logs with getLogs, caches them in localStorage
+// and resumes from the last indexed block. The rest of the UI queries trades and
+// markets from here instead of re-reading the chain. Once the cache outgrows the
+// localStorage quota it is kept in memory only, until the next clear().
+import type { AmmBackend, AmmEvent, Hex, MarketCreatedEvent, TradeEvent } from "./backend";
+
+/** Blocks per getLogs call to start with; halved whenever the RPC rejects a range. */
+export const DEFAULT_CHUNK_SIZE = 5_000n;
+
+/** getLogs chunks between localStorage writes; each write serializes the whole cache. */
+const SAVE_EVERY_CHUNKS = 25;
+
+type IndexerCache = {
+  startBlock: bigint;
+  /** last block fully indexed, null before the first sync */
+  indexedTo: bigint | null;
+  events: AmmEvent[];
+};
+
+export type IndexerStatus = {
+  startBlock: bigint;
+  indexedTo: bigint | null;
+  latest: bigint | null;
+  events: number;
+  /** false once the cache no longer fits in localStorage */
+  persisted: boolean;
+};
+
+export type TradeFilter = {
+  marketId?: number;
+  trader?: Hex;
+  outcome?: number;
+  /** inclusive block range */
+  fromBlock?: bigint;
+  toBlock?: bigint;
+};
+
+export type IndexedMarket = MarketCreatedEvent & { closed: boolean; trades: number };
+
+export type Indexer = {
+  /** Indexes up to the latest block; concurrent calls share one run. */
+  sync(onProgress?: (s: IndexerStatus) => void): Promise<IndexerStatus>;
+  status(): IndexerStatus;
+  trades(filter?: TradeFilter): TradeEvent[];
+  tradesByMarket(marketId: number): TradeEvent[];
+  tradesByTrader(trader: Hex): TradeEvent[];
+  tradesInBlocks(fromBlock: bigint, toBlock: bigint): TradeEvent[];
+  markets(): IndexedMarket[];
+  /** Drops the cache; the next sync starts from startBlock again. */
+  clear(): void;
+};
+
+// bigints are stored as "123n" strings, as in simBackend.ts
+const load = (key: string): IndexerCache | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    return JSON.parse(raw, (_, v) => (typeof v === "string" && /^-?\d+n$/.test(v) ? BigInt(v.slice(0, -1)) : v));
+  } catch {
+    return null;
+  }
+};
+
+/** false when localStorage is full; other errors are rethrown. */
+const save = (key: string, c: IndexerCache): boolean => {
+  try {
+    localStorage.setItem(key, JSON.stringify(c, (_, v) => (typeof v === "bigint" ? `${v}n` : v)));
+    return true;
+  } catch (e) {
+    // Firefox reports NS_ERROR_DOM_QUOTA_REACHED
+    if (e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED")) return false;
+    throw e;
+  }
+};
+
+export const indexerCacheKey = (network: string, ammAddress: Hex) => `indexer:${network}:${ammAddress.toLowerCase()}`;
+
+export function createIndexer(
+  backend: AmmBackend,
+  opts: { cacheKey: string; startBlock: bigint; chunkSize?: bigint },
+): Indexer {
+  const { cacheKey, startBlock } = opts;
+  const maxChunk = opts.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const fresh = (): IndexerCache => ({ startBlock, indexedTo: null, events: [] });
+
+  let cache = load(cacheKey) ?? fresh();
+  if (cache.startBlock !== startBlock) cache = fresh();
+  let latest: bigint | null = null;
+  let running: Promise<IndexerStatus> | null = null;
+  let persisted = true;
+
+  const status = (): IndexerStatus => ({
+    startBlock: cache.startBlock,
+    indexedTo: cache.indexedTo,
+    latest,
+    events: cache.events.length,
+    persisted,
+  });
+
+  const run = async (onProgress?: (s: IndexerStatus) => void) => {
+    latest = await backend.blockNumber();
+    // the chain went backwards (reorg past our head, or a simulator reset): start over
+    if (cache.indexedTo !== null && latest < cache.indexedTo) cache = fresh();
+
+    let chunk = maxChunk;
+    let from = cache.indexedTo === null ? startBlock : cache.indexedTo + 1n;
+    let unsaved = 0;
+    const flush = () => {
+      if (unsaved === 0) return;
+      unsaved = 0;
+      if (persisted && !save(cacheKey, cache)) {
+        persisted = false;
+        // a stale copy would only hold quota the rest of the app needs
+        localStorage.removeItem(cacheKey);
+      }
+    };
+    try {
+      while (from <= latest) {
+        const to = from + chunk - 1n < latest ? from + chunk - 1n : latest;
+        let events: AmmEvent[];
+        try {
+          events = await backend.getEvents(from, to);
+        } catch (e) {
+          // most RPCs cap the range or result count of eth_getLogs
+          if (chunk === 1n) throw e;
+          chunk /= 2n;
+          continue;
+        }
+        // appended in place: copying the whole history per chunk is quadratic on a first sync
+        for (const e of events) cache.events.push(e);
+        cache.indexedTo = to;
+        if (++unsaved >= SAVE_EVERY_CHUNKS) flush();
+        onProgress?.(status());
+        from = to + 1n;
+        if (chunk < maxChunk) chunk *= 2n;
+      }
+    } finally {
+      // keep what was indexed, even when a later chunk fails
+      flush();
+    }
+    return status();
+  };
+
+  const trades = (f: TradeFilter = {}) => {
+    const trader = f.trader?.toLowerCase();
+    return cache.events.filter(
+      (e): e is TradeEvent =>
+        e.kind === "Trade" &&
+        (f.marketId === undefined || e.marketId === f.marketId) &&
+        (trader === undefined || e.trader.toLowerCase() === trader) &&
+        (f.outcome === undefined || e.outcome === f.outcome) &&
+        (f.fromBlock === undefined || e.blockNumber >= f.fromBlock) &&
+        (f.toBlock === undefined || e.blockNumber <= f.toBlock),
+    );
+  };
+
+  return {
+    sync(onProgress) {
+      running ??= run(onProgress).finally(() => {
+        running = null;
+      });
+      return running;
+    },
+
+    status,
+    trades,
+    tradesByMarket: (marketId) => trades({ marketId }),
+    tradesByTrader: (trader) => trades({ trader }),
+    tradesInBlocks: (fromBlock, toBlock) => trades({ fromBlock, toBlock }),
+
+    markets() {
+      const byId = new Map<number, IndexedMarket>();
+      for (const e of cache.events) {
+        if (e.kind === "MarketCreated") byId.set(e.marketId, { ...e, closed: false, trades: 0 });
+        const m = byId.get(e.marketId);
+        if (!m) continue;
+        if (e.kind === "MarketClosed") m.closed = true;
+        if (e.kind === "Trade") m.trades += 1;
+      }
+      return [...byId.values()];
+    },
+
+    clear() {
+      cache = fresh();
+      latest = null;
+      persisted = true;
+      localStorage.removeItem(cacheKey);
+    },
+  };
+}
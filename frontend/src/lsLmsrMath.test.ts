@@ -0,0 +1,119 @@
+// The port must match contracts/src/LsLmsrMath.sol to the wei. Every expected value
+// below was produced by the Solidity library itself (solc 0.8.24, PRBMath v4.1.0, run in
+// an EVM), on the inputs of contracts/test/LsLmsrMath.t.sol plus states from the flow
+// tests and the exp/ln domain edges. Regenerate them from the contract, never from this port.
+import { describe, expect, it } from "vitest";
+import {
+  LsLmsrMathError,
+  WAD,
+  bOfT,
+  costAbsolute,
+  costFixedB,
+  costLsProxyStepped,
+  expWad,
+  lnWad,
+  logSumExp,
+  prices,
+} from "./lsLmsrMath";
+
+const reverts = (fn: () => unknown, reason: string) => {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(LsLmsrMathError);
+    expect((e as LsLmsrMathError).reason).toBe(reason);
+    return;
+  }
+  throw new Error(`expected a ${reason} revert`);
+};
+
+describe("PRBMath UD60x18 exp / ln", () => {
+  it.each([
+    [0n, 1000000000000000000n],
+    [1n, 1000000000000000000n],
+    [WAD / 2n, 1648721270700128145n],
+    [WAD, 2718281828459045234n],
+    [10n * WAD, 22026465794806716461725n],
+    [133n * WAD, 5769870862033002987997031639465059335660945969204946085555000000000000000000n],
+    [133_084258667509499440n, 6277101735386680754977611748738314679353920434623901771623000000000000000000n],
+  ])("exp(%s)", (x, expected) => {
+    expect(expWad(x)).toBe(expected);
+  });
+
+  it("exp reverts just past its max input", () => {
+    reverts(() => expWad(133_084258667509499441n), "PRBMath_UD60x18_Exp_InputTooBig");
+  });
+
+  it.each([
+    [WAD, 0n],
+    [WAD + 1n, 0n],
+    [2n * WAD, 693147180559945309n],
+    [3n * WAD, 1098612288668109680n],
+    [10n ** 30n, 27631021115928548205n],
+    [2n ** 255n, 135305999368893231616n],
+  ])("ln(%s)", (x, expected) => {
+    expect(lnWad(x)).toBe(expected);
+  });
+
+  it("ln reverts below 1", () => {
+    reverts(() => lnWad(WAD - 1n), "PRBMath_UD60x18_Log_InputTooSmall");
+  });
+});
+
+describe("LsLmsrMath", () => {
+  const q = [3n * WAD, WAD, 0n];
+
+  it("prices at q = 0 (test_PricesSumToOne_LMSR)", () => {
+    expect(prices([0n, 0n, 0n], 3n * WAD)).toEqual([333333333333333333n, 333333333333333333n, 333333333333333333n]);
+  });
+
+  it("prices, logSumExp and costAbsolute at q = [3, 1, 0], b = 5", () => {
+    expect(prices(q, 5n * WAD)).toEqual([450626705955689725n, 302064114281106431n, 247309179763203843n]);
+    expect(logSumExp(q, 5n * WAD)).toBe(1397115985195438206n);
+    expect(costAbsolute(q, 5n * WAD)).toBe(6985579925977191030n);
+  });
+
+  it("costFixedB", () => {
+    // test_CostFixedB_NoOpIsZero
+    expect(costFixedB([WAD, 2n * WAD, 0n], [0n, 0n, 0n], 5n * WAD)).toBe(0n);
+    expect(costFixedB(q, [0n, 2n * WAD, 0n], 5n * WAD)).toBe(692556201451514185n);
+  });
+
+  it("bOfT (test_LSProxy_bOfT)", () => {
+    expect(bOfT(5n * WAD, WAD / 10n, 20n * WAD)).toBe(7n * WAD);
+  });
+
+  it("reverts with ExpInputTooLarge past q/b = 133", () => {
+    reverts(() => prices([700n * WAD, 0n], 5n * WAD), "ExpInputTooLarge");
+  });
+});
+
+describe("costLsProxyStepped", () => {
+  const b0 = 5n * WAD;
+  const alpha = WAD / 10n;
+
+  it.each([
+    // test_LSProxy_CostStepsConverges
+    { q: [0n, 0n, 0n], outcome: 0, isBuy: true, dQ: WAD, k: 1, cost: 356023076025931565n, qAfter: [WAD, 0n, 0n], bAfter: 5_100000000000000000n },
+    { q: [0n, 0n, 0n], outcome: 0, isBuy: true, dQ: WAD, k: 32, cost: 355725048134570405n, qAfter: [WAD, 0n, 0n], bAfter: 5_100000000000000000n },
+    { q: [0n, 0n, 0n], outcome: 0, isBuy: true, dQ: 10n * WAD, k: 16, cost: 5464196461015357954n, qAfter: [10n * WAD, 0n, 0n], bAfter: 6n * WAD },
+    // chunk/remainder split
+    {
+      q: [2n * WAD, 0n, WAD], outcome: 1, isBuy: true, dQ: 7_300000000000000001n, k: 7, cost: 3076596473759368541n,
+      qAfter: [2n * WAD, 7_300000000000000001n, WAD], bAfter: 6_030000000000000000n,
+    },
+    {
+      q: [10n * WAD, 3n * WAD, WAD], outcome: 0, isBuy: false, dQ: 4n * WAD, k: 64, cost: -2254836998455667263n,
+      qAfter: [6n * WAD, 3n * WAD, WAD], bAfter: 6n * WAD,
+    },
+  ])("isBuy=$isBuy ΔQ=$dQ of outcome $outcome at K = $k", ({ q, outcome, isBuy, dQ, k, cost, qAfter, bAfter }) => {
+    const r = costLsProxyStepped(q, outcome, isBuy, dQ, k, b0, alpha);
+    expect(r.dCostWad).toBe(cost);
+    expect(r.qAfterWad).toEqual(qAfter);
+    expect(r.bAfterWad).toBe(bAfter);
+  });
+
+  it("reverts with NotEnoughQToSell", () => {
+    reverts(() => costLsProxyStepped([WAD, 0n, 0n], 0, false, 2n * WAD, 4, b0, alpha), "NotEnoughQToSell");
+  });
+});
@@ -0,0 +1,415 @@
+// Client-side port of contracts/src/LsLmsrMath.sol and the quote paths of LsLmsrAMM.
+// Everything is 60.18 fixed point (WAD) bigint, and exp/ln replicate PRBMath v4.1.0
+// UD60x18 bit-for-bit, so results match the contract to the wei. It also carries
+// liquidity-sensitivity models the contract doesn't have (Othman's LS-LMSR, capped and
+// log-shaped b(T)), for comparing against LS-PROXY in the simulator.
+
+// ---------- Constants ----------
+export const WAD = 10n ** 18n;
+/** Same safety margin as LsLmsrMath.MAX_EXP_INPUT_WAD. */
+export const MAX_EXP_INPUT_WAD = 133n * WAD;
+/** LsLmsrAMM.MAX_STEPS */
+export const MAX_STEPS = 64;
+
+// PRBMath UD60x18 constants
+const uEXP_MAX_INPUT = 133_084258667509499440n;
+const uEXP2_MAX_INPUT = 192n * WAD - 1n;
+const uLOG2_E = 1_442695040888963407n;
+const uHALF_UNIT = WAD / 2n;
+
+// ---------- Types ----------
+/** 0 and 1 are LsLmsrAMM's; the rest exist only in this engine and the simulator. */
+export const Mechanism = { LMSR: 0, LS_PROXY: 1, LS_LMSR: 2, LS_CAPPED: 3, LS_LOG: 4 } as const;
+export type Mechanism = (typeof Mechanism)[keyof typeof Mechanism];
+
+/** Create-form options and short display names. */
+export const MECHANISMS: { value: Mechanism; name: string; label: string; onChain: boolean }[] = [
+  { value: Mechanism.LMSR, name: "LMSR", label: "LMSR (Fixed b)", onChain: true },
+  { value: Mechanism.LS_PROXY, name: "LS-PROXY", label: "LS-PROXY (b₀ + α·T)", onChain: true },
+  { value: Mechanism.LS_LMSR, name: "LS-LMSR", label: "LS-LMSR (α·Σq, Othman)", onChain: false },
+  { value: Mechanism.LS_CAPPED, name: "LS-CAP", label: "Capped (min(b₀ + α·T, b_max))", onChain: false },
+  { value: Mechanism.LS_LOG, name: "LS-LOG", label: "Log (b₀ + α·ln(1 + T))", onChain: false },
+];
+
+export const mechName = (mech: number) => MECHANISMS.find((m) => m.value === mech)?.name ?? `mech ${mech}`;
+
+/** ILsLmsr.Market */
+export type MarketMeta = {
+  mech: number;
+  n: number;
+  b0Wad: bigint;
+  alphaWad: bigint;
+  /** LS_CAPPED only: the ceiling b_max */
+  bCapWad?: bigint;
+  collateral: bigint;
+  closed: boolean;
+};
+
+/** Decoded `state(marketId)` result. */
+export type MarketState = {
+  meta: MarketMeta;
+  q: readonly bigint[];
+  T: bigint;
+  bEff: bigint;
+  prices: readonly bigint[];
+};
+
+export type LsLmsrErrorName =
+  | "ExpInputTooLarge"
+  | "NotEnoughQToSell"
+  | "InvalidOutcome"
+  | "StepsOutOfRange"
+  | "ArithmeticUnderflow"
+  | "PRBMath_UD60x18_Exp_InputTooBig"
+  | "PRBMath_UD60x18_Exp2_InputTooBig"
+  | "PRBMath_UD60x18_Log_InputTooSmall"
+  // simulator-only mechanisms
+  | "NoLiquidity";
+
+/** Thrown wherever the contract would revert; `reason` is the Solidity error name. */
+export class LsLmsrMathError extends Error {
+  readonly reason: LsLmsrErrorName;
+
+  constructor(reason: LsLmsrErrorName) {
+    super(reason);
+    this.name = "LsLmsrMathError";
+    this.reason = reason;
+  }
+}
+
+// ---------- PRBMath UD60x18 ----------
+// Common.exp2 magic factors: 2^(2^-i) in 64.64, for fractional bits 63 down to 0.
+const EXP2_FACTORS = [
+  0x16A09E667F3BCC909n, 0x1306FE0A31B7152DFn, 0x1172B83C7D517ADCEn, 0x10B5586CF9890F62An,
+  0x1059B0D31585743AEn, 0x102C9A3E778060EE7n, 0x10163DA9FB33356D8n, 0x100B1AFA5ABCBED61n,
+  0x10058C86DA1C09EA2n, 0x1002C605E2E8CEC50n, 0x100162F3904051FA1n, 0x1000B175EFFDC76BAn,
+  0x100058BA01FB9F96Dn, 0x10002C5CC37DA9492n, 0x1000162E525EE0547n, 0x10000B17255775C04n,
+  0x1000058B91B5BC9AEn, 0x100002C5C89D5EC6Dn, 0x10000162E43F4F831n, 0x100000B1721BCFC9An,
+  0x10000058B90CF1E6En, 0x1000002C5C863B73Fn, 0x100000162E430E5A2n, 0x1000000B172183551n,
+  0x100000058B90C0B49n, 0x10000002C5C8601CCn, 0x1000000162E42FFF0n, 0x10000000B17217FBBn,
+  0x1000000058B90BFCEn, 0x100000002C5C85FE3n, 0x10000000162E42FF1n, 0x100000000B17217F8n,
+  0x10000000058B90BFCn, 0x1000000002C5C85FEn, 0x100000000162E42FFn, 0x1000000000B17217Fn,
+  0x100000000058B90C0n, 0x10000000002C5C860n, 0x1000000000162E430n, 0x10000000000B17218n,
+  0x1000000000058B90Cn, 0x100000000002C5C86n, 0x10000000000162E43n, 0x100000000000B1721n,
+  0x10000000000058B91n, 0x1000000000002C5C8n, 0x100000000000162E4n, 0x1000000000000B172n,
+  0x100000000000058B9n, 0x10000000000002C5Dn, 0x1000000000000162En, 0x10000000000000B17n,
+  0x1000000000000058Cn, 0x100000000000002C6n, 0x10000000000000163n, 0x100000000000000B1n,
+  0x10000000000000059n, 0x1000000000000002Cn, 0x10000000000000016n, 0x1000000000000000Bn,
+  0x10000000000000006n, 0x10000000000000003n, 0x10000000000000001n, 0x10000000000000001n,
+];
+
+/** Common.exp2 on a 192.64 input; returns UD60x18. */
+function commonExp2(x: bigint): bigint {
+  // 0.5 in 192.64
+  let result = 1n << 191n;
+  for (let i = 0; i < 64; i++) {
+    if (x & (1n << BigInt(63 - i))) result = (result * EXP2_FACTORS[i]) >> 64n;
+  }
+  result *= WAD;
+  return result >> (191n - (x >> 64n));
+}
+
+/** UD60x18 exp2 */
+export function exp2Wad(x: bigint): bigint {
+  if (x > uEXP2_MAX_INPUT) throw new LsLmsrMathError("PRBMath_UD60x18_Exp2_InputTooBig");
+  return commonExp2((x << 64n) / WAD);
+}
+
+/** UD60x18 exp */
+export function expWad(x: bigint): bigint {
+  if (x > uEXP_MAX_INPUT) throw new LsLmsrMathError("PRBMath_UD60x18_Exp_InputTooBig");
+  return exp2Wad((x * uLOG2_E) / WAD);
+}
+
+function msb(x: bigint): bigint {
+  let r = 0n;
+  while (x > 1n) {
+    x >>= 1n;
+    r++;
+  }
+  return r;
+}
+
+/** UD60x18 log2 (iterative squaring, same precision as PRBMath). */
+export function log2Wad(x: bigint): bigint {
+  if (x < WAD) throw new LsLmsrMathError("PRBMath_UD60x18_Log_InputTooSmall");
+  const n = msb(x / WAD);
+  let result = n * WAD;
+  let y = x >> n;
+  if (y === WAD) return result;
+  const DOUBLE_UNIT = 2n * WAD;
+  for (let delta = uHALF_UNIT; delta > 0n; delta >>= 1n) {
+    y = (y * y) / WAD;
+    if (y >= DOUBLE_UNIT) {
+      result += delta;
+      y >>= 1n;
+    }
+  }
+  return result;
+}
+
+/** UD60x18 ln */
+export function lnWad(x: bigint): bigint {
+  return (log2Wad(x) * WAD) / uLOG2_E;
+}
+
+// ---------- LsLmsrMath ----------
+function expTerms(qWad: readonly bigint[], bWad: bigint): bigint[] {
+  return qWad.map((qi) => {
+    const x = (qi * WAD) / bWad;
+    if (x > MAX_EXP_INPUT_WAD) throw new LsLmsrMathError("ExpInputTooLarge");
+    return expWad(x);
+  });
+}
+
+/** logSumExp(q / b) */
+export function logSumExp(qWad: readonly bigint[], bWad: bigint): bigint {
+  const sumExp = expTerms(qWad, bWad).reduce((a, b) => a + b, 0n);
+  return lnWad(sumExp);
+}
+
+/** p_i = exp(q_i/b) / Σ_j exp(q_j/b); sums to ~1e18 (rounded down per outcome). */
+export function prices(qWad: readonly bigint[], bWad: bigint): bigint[] {
+  const ex = expTerms(qWad, bWad);
+  const sumExp = ex.reduce((a, b) => a + b, 0n);
+  return ex.map((e) => (e * WAD) / sumExp);
+}
+
+/** C(q) = b · logSumExp(q/b) */
+export function costAbsolute(qWad: readonly bigint[], bWad: bigint): bigint {
+  return (bWad * logSumExp(qWad, bWad)) / WAD;
+}
+
+/** C(q+Δ) − C(q) at fixed b */
+export function costFixedB(qWad: readonly bigint[], deltaWad: readonly bigint[], bWad: bigint): bigint {
+  const q2 = qWad.map((qi, i) => qi + deltaWad[i]);
+  return costAbsolute(q2, bWad) - costAbsolute(qWad, bWad);
+}
+
+/** b(T) = b0 + α·T */
+export function bOfT(b0Wad: bigint, alphaWad: bigint, tWad: bigint): bigint {
+  return b0Wad + (alphaWad * tWad) / WAD;
+}
+
+/** b(T) = min(b0 + α·T, b_max) */
+export function bCappedOfT(b0Wad: bigint, alphaWad: bigint, bCapWad: bigint, tWad: bigint): bigint {
+  const b = bOfT(b0Wad, alphaWad, tWad);
+  return b < bCapWad ? b : bCapWad;
+}
+
+/** b(T) = b0 + α·ln(1 + T) */
+export function bLogOfT(b0Wad: bigint, alphaWad: bigint, tWad: bigint): bigint {
+  return b0Wad + (alphaWad * lnWad(WAD + tWad)) / WAD;
+}
+
+export const sumWad = (arr: readonly bigint[]) => arr.reduce((a, b) => a + b, 0n);
+
+/**
+ * Piecewise-constant-b integral for LS-PROXY: Δ is split into `steps` equal chunks,
+ * the last one taking the remainder, and b is re-evaluated from T before each chunk.
+ */
+export function costLsProxyStepped(
+  qWad: readonly bigint[],
+  outcome: number,
+  isBuy: boolean,
+  dQWad: bigint,
+  steps: number,
+  b0Wad: bigint,
+  alphaWad: bigint,
+): { dCostWad: bigint; qAfterWad: bigint[]; bAfterWad: bigint } {
+  return costSteppedB(qWad, outcome, isBuy, dQWad, steps, (t) => bOfT(b0Wad, alphaWad, t));
+}
+
+/** costLsProxyStepped for any b(T). */
+export function costSteppedB(
+  qWad: readonly bigint[],
+  outcome: number,
+  isBuy: boolean,
+  dQWad: bigint,
+  steps: number,
+  bOf: (tWad: bigint) => bigint,
+): { dCostWad: bigint; qAfterWad: bigint[]; bAfterWad: bigint } {
+  const qAfterWad = [...qWad];
+  if (!isBuy && dQWad > qAfterWad[outcome]) throw new LsLmsrMathError("NotEnoughQToSell");
+
+  const K = BigInt(steps);
+  const chunk = dQWad / K;
+  const rem = dQWad - chunk * K;
+
+  let dCostWad = 0n;
+  for (let s = 0; s < steps; s++) {
+    const dq = s === steps - 1 ? chunk + rem : chunk;
+    const bNow = bOf(sumWad(qAfterWad));
+    const c1 = costAbsolute(qAfterWad, bNow);
+    if (isBuy) {
+      qAfterWad[outcome] += dq;
+    } else {
+      if (dq > qAfterWad[outcome]) throw new LsLmsrMathError("NotEnoughQToSell");
+      qAfterWad[outcome] -= dq;
+    }
+    dCostWad += costAbsolute(qAfterWad, bNow) - c1;
+  }
+
+  return { dCostWad, qAfterWad, bAfterWad: bOf(sumWad(qAfterWad)) };
+}
+
+// ---------- Othman LS-LMSR ----------
+// b(q) = α·Σq, so the cost function is path independent and trades need no stepping,
+// but prices sum to more than 1 (up to 1 + α·n·ln n): the overround is the maker's vig.
+
+/** C(q) = b(q) · logSumExp(q / b(q)), b(q) = α·Σq */
+export function costLsLmsr(qWad: readonly bigint[], alphaWad: bigint): bigint {
+  const b = (alphaWad * sumWad(qWad)) / WAD;
+  if (b === 0n) throw new LsLmsrMathError("NoLiquidity");
+  return costAbsolute(qWad, b);
+}
+
+/** p_i = α·ln Σe_j + (T·e_i − Σ_j q_j·e_j) / (T·Σe_j), with e_j = exp(q_j / b(q)). */
+export function pricesLsLmsr(qWad: readonly bigint[], alphaWad: bigint): bigint[] {
+  const T = sumWad(qWad);
+  const b = (alphaWad * T) / WAD;
+  if (b === 0n) throw new LsLmsrMathError("NoLiquidity");
+  const ex = expTerms(qWad, b);
+  const sumExp = sumWad(ex);
+  const weighted = qWad.reduce((a, qj, j) => a + qj * ex[j], 0n);
+  const base = (alphaWad * lnWad(sumExp)) / WAD;
+  return ex.map((e) => base + ((T * e - weighted) * WAD) / (T * sumExp));
+}
+
+/**
+ * q a new market starts from. LS-LMSR has no liquidity at q = 0, so the maker seeds
+ * every outcome with b0 / (α·n) shares, making b(q0) = b0; the other mechanisms start empty.
+ */
+export function initialQ(meta: Pick<MarketMeta, "mech" | "n" | "b0Wad" | "alphaWad">): bigint[] {
+  const seed =
+    meta.mech === Mechanism.LS_LMSR && meta.alphaWad > 0n ? (meta.b0Wad * WAD) / (meta.alphaWad * BigInt(meta.n)) : 0n;
+  return Array.from({ length: meta.n }, () => seed);
+}
+
+// ---------- LsLmsrAMM views ----------
+/** Effective b for a market at total liquidity T. */
+export function bEffOf(meta: MarketMeta, tWad: bigint): bigint {
+  switch (meta.mech) {
+    case Mechanism.LMSR:
+      return meta.b0Wad;
+    case Mechanism.LS_LMSR:
+      return (meta.alphaWad * tWad) / WAD;
+    case Mechanism.LS_CAPPED:
+      return bCappedOfT(meta.b0Wad, meta.alphaWad, meta.bCapWad ?? meta.b0Wad, tWad);
+    case Mechanism.LS_LOG:
+      return bLogOfT(meta.b0Wad, meta.alphaWad, tWad);
+    default:
+      return bOfT(meta.b0Wad, meta.alphaWad, tWad);
+  }
+}
+
+const pricesOf = (meta: MarketMeta, qWad: readonly bigint[], bWad: bigint) =>
+  meta.mech === Mechanism.LS_LMSR ? pricesLsLmsr(qWad, meta.alphaWad) : prices(qWad, bWad);
+
+/** Rebuild the full `state()` tuple from meta and q. */
+export function stateFromQ(meta: MarketMeta, qWad: readonly bigint[]): MarketState {
+  const T = sumWad(qWad);
+  const bEff = bEffOf(meta, T);
+  return { meta, q: [...qWad], T, bEff, prices: pricesOf(meta, qWad, bEff) };
+}
+
+export type QuoteResult = {
+  /** quoteBuy: cost paid (≥ 0). quoteSell: signed payout received. */
+  amountWad: bigint;
+  pricesAfter: bigint[];
+  /** Resulting q (what `buy`/`sell` would commit). */
+  qAfter: bigint[];
+  bAfter: bigint;
+};
+
+function checkArgs(meta: MarketMeta, outcome: number, steps: number) {
+  if (outcome < 0 || outcome >= meta.n) throw new LsLmsrMathError("InvalidOutcome");
+  if (steps <= 0 || steps > MAX_STEPS) throw new LsLmsrMathError("StepsOutOfRange");
+}
+
+/** Local equivalent of LsLmsrAMM.quoteBuy on a `state()` snapshot. */
+export function quoteBuy(s: MarketState, outcome: number, dQWad: bigint, steps: number): QuoteResult {
+  const { meta } = s;
+  checkArgs(meta, outcome, steps);
+
+  if (meta.mech === Mechanism.LMSR) {
+    const delta = s.q.map((_, i) => (i === outcome ? dQWad : 0n));
+    const dCost = costFixedB(s.q, delta, meta.b0Wad);
+    const qAfter = s.q.map((qi, i) => (i === outcome ? qi + dQWad : qi));
+    return {
+      amountWad: dCost < 0n ? 0n : dCost,
+      pricesAfter: prices(qAfter, meta.b0Wad),
+      qAfter,
+      bAfter: meta.b0Wad,
+    };
+  }
+
+  if (meta.mech === Mechanism.LS_LMSR) {
+    const qAfter = s.q.map((qi, i) => (i === outcome ? qi + dQWad : qi));
+    const dCost = costLsLmsr(qAfter, meta.alphaWad) - costLsLmsr(s.q, meta.alphaWad);
+    return {
+      amountWad: dCost < 0n ? 0n : dCost,
+      pricesAfter: pricesLsLmsr(qAfter, meta.alphaWad),
+      qAfter,
+      bAfter: bEffOf(meta, sumWad(qAfter)),
+    };
+  }
+
+  const r = costSteppedB(s.q, outcome, true, dQWad, steps, (t) => bEffOf(meta, t));
+  return {
+    amountWad: r.dCostWad < 0n ? 0n : r.dCostWad,
+    pricesAfter: prices(r.qAfterWad, r.bAfterWad),
+    qAfter: r.qAfterWad,
+    bAfter: r.bAfterWad,
+  };
+}
+
+/** Local equivalent of LsLmsrAMM.quoteSell on a `state()` snapshot. */
+export function quoteSell(s: MarketState, outcome: number, dQWad: bigint, steps: number): QuoteResult {
+  const { meta } = s;
+  checkArgs(meta, outcome, steps);
+
+  if (meta.mech === Mechanism.LMSR) {
+    // the contract underflows (Panic 0x11) in _qAfterSingle before its NegativeQ check
+    if (dQWad > s.q[outcome]) throw new LsLmsrMathError("ArithmeticUnderflow");
+    const qAfter = s.q.map((qi, i) => (i === outcome ? qi - dQWad : qi));
+    const dCost = costAbsolute(qAfter, meta.b0Wad) - costAbsolute(s.q, meta.b0Wad);
+    return {
+      amountWad: -dCost,
+      pricesAfter: prices(qAfter, meta.b0Wad),
+      qAfter,
+      bAfter: meta.b0Wad,
+    };
+  }
+
+  if (meta.mech === Mechanism.LS_LMSR) {
+    if (dQWad > s.q[outcome]) throw new LsLmsrMathError("NotEnoughQToSell");
+    const qAfter = s.q.map((qi, i) => (i === outcome ? qi - dQWad : qi));
+    const dCost = costLsLmsr(qAfter, meta.alphaWad) - costLsLmsr(s.q, meta.alphaWad);
+    return {
+      amountWad: -dCost,
+      pricesAfter: pricesLsLmsr(qAfter, meta.alphaWad),
+      qAfter,
+      bAfter: bEffOf(meta, sumWad(qAfter)),
+    };
+  }
+
+  const r = costSteppedB(s.q, outcome, false, dQWad, steps, (t) => bEffOf(meta, t));
+  return {
+    amountWad: -r.dCostWad,
+    pricesAfter: prices(r.qAfterWad, r.bAfterWad),
+    qAfter: r.qAfterWad,
+    bAfter: r.bAfterWad,
+  };
+}
+
+/** Dispatches to quoteBuy / quoteSell. */
+export function quoteLocal(
+  s: MarketState,
+  side: "buy" | "sell",
+  outcome: number,
+  dQWad: bigint,
+  steps: number,
+): QuoteResult {
+  return side === "buy" ? quoteBuy(s, outcome, dQWad, steps) : quoteSell(s, outcome, dQWad, steps);
+}
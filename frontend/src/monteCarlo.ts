@@ -0,0 +1,271 @@
+// Agent-based Monte Carlo: populations of noise, informed and momentum traders
+// trade against a local LMSR and LS-PROXY market with identical parameters, and
+// we measure how prices converge to a hidden "true" probability vector.
+import { MAX_STEPS, Mechanism, WAD, quoteLocal, stateFromQ } from "./lsLmsrMath";
+import type { MarketMeta, MarketState } from "./lsLmsrMath";
+
+export type AgentMix = { noise: number; informed: number; momentum: number };
+
+export type MonteCarloConfig = {
+  /** hidden outcome probabilities (normalized before use) */
+  trueProbs: number[];
+  b0: number;
+  alpha: number;
+  /** K for LS-PROXY stepped quotes */
+  steps: number;
+  agents: AgentMix;
+  /** base ΔQ per trade */
+  tradeSize: number;
+  /** σ of the Gaussian noise on informed traders' private signals */
+  signalNoise: number;
+  /** min |belief − price| before an informed trader acts */
+  edge: number;
+  /** probability a noise trader trades in a given round */
+  noiseActivity: number;
+  /** rounds a momentum trader looks back */
+  lookback: number;
+  rounds: number;
+  paths: number;
+  seed: number;
+};
+
+export const DEFAULT_MC_CONFIG: MonteCarloConfig = {
+  trueProbs: [0.5, 0.3, 0.2],
+  b0: 5,
+  alpha: 0.1,
+  steps: 4,
+  agents: { noise: 3, informed: 2, momentum: 1 },
+  tradeSize: 1,
+  signalNoise: 0.05,
+  edge: 0.02,
+  noiseActivity: 0.5,
+  lookback: 3,
+  rounds: 40,
+  paths: 50,
+  seed: 42,
+};
+
+/** Why `cfg` can't be simulated, or null. Out-of-range K would only turn every trade into a rejection. */
+export function validateConfig(cfg: MonteCarloConfig): string | null {
+  const { trueProbs: p, steps, rounds, paths } = cfg;
+  if (p.length < 2 || p.length > 5 || p.some((x) => !(x > 0))) return "True probabilities: 2–5 positive numbers, comma-separated";
+  if (!Number.isInteger(steps) || steps < 1 || steps > MAX_STEPS) return `Steps (K) must be an integer from 1 to ${MAX_STEPS}`;
+  if (!Number.isInteger(rounds) || rounds < 1) return "Rounds must be a positive integer";
+  if (!Number.isInteger(paths) || paths < 1) return "Paths must be a positive integer";
+  if (!(cfg.b0 > 0)) return "b₀ must be positive";
+  if (!(cfg.tradeSize > 0)) return "Trade size must be positive";
+  return null;
+}
+
+export type PathResult = {
+  /** prices[round][outcome]; round 0 is the opening state */
+  prices: number[][];
+  winner: number;
+  /** collateral collected minus payout owed to the winning outcome */
+  mmPnl: number;
+  /** Σ |p_after − p_before| of the traded outcome */
+  impactSum: number;
+  trades: number;
+  /** trades the AMM rejected (e.g. ExpInputTooLarge) */
+  rejected: number;
+};
+
+// ---------- RNG ----------
+/** mulberry32: small, fast, seedable */
+export function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const gaussian = (rng: () => number) => {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+export const normalize = (p: number[]) => {
+  const s = p.reduce((a, b) => a + b, 0);
+  return p.map((x) => x / s);
+};
+
+const toWadF = (x: number) => BigInt(Math.round(x * 1e6)) * (WAD / 1_000_000n);
+const fromWadF = (x: bigint) => Number(x) / 1e18;
+const argmax = (xs: number[]) => xs.reduce((best, x, i) => (x > xs[best] ? i : best), 0);
+
+// ---------- One path ----------
+type Agent = { kind: keyof AgentMix; holdings: number[]; belief?: number[] };
+
+/**
+ * Simulates one path for one mechanism. The RNG is seeded by (seed, path) only and
+ * every agent draws the same count of numbers per round, so LMSR and LS-PROXY see
+ * the same winner, signals and noise-trader coin flips.
+ */
+export function simulatePath(cfg: MonteCarloConfig, mech: Mechanism, path: number): PathResult {
+  const rng = mulberry32(cfg.seed * 1_000_003 + path);
+  const truth = normalize(cfg.trueProbs);
+  const n = truth.length;
+
+  // draw the resolution up front so it doesn't depend on trading
+  let winner = n - 1;
+  for (let u = rng(), i = 0, acc = 0; i < n; i++) {
+    acc += truth[i];
+    if (u < acc) { winner = i; break; }
+  }
+
+  const agents: Agent[] = [];
+  (Object.keys(cfg.agents) as (keyof AgentMix)[]).forEach((kind) => {
+    for (let k = 0; k < cfg.agents[kind]; k++) {
+      const agent: Agent = { kind, holdings: Array(n).fill(0) };
+      // every agent draws a signal so the RNG stream doesn't depend on the mix order
+      const signal = truth.map((p) => Math.max(1e-3, p + cfg.signalNoise * gaussian(rng)));
+      if (kind === "informed") agent.belief = normalize(signal);
+      agents.push(agent);
+    }
+  });
+
+  const meta: MarketMeta = {
+    mech,
+    n,
+    b0Wad: toWadF(cfg.b0),
+    alphaWad: mech === Mechanism.LMSR ? 0n : toWadF(cfg.alpha),
+    collateral: 0n,
+    closed: false,
+  };
+  let s: MarketState = stateFromQ(meta, Array(n).fill(0n));
+  let collateral = 0n;
+  let impactSum = 0;
+  let trades = 0;
+  let rejected = 0;
+  const prices: number[][] = [s.prices.map(fromWadF)];
+
+  const trade = (agent: Agent, side: "buy" | "sell", outcome: number, dQ: number) => {
+    if (dQ <= 0) return;
+    try {
+      const r = quoteLocal(s, side, outcome, toWadF(dQ), cfg.steps);
+      collateral += side === "buy" ? r.amountWad : -r.amountWad;
+      impactSum += Math.abs(fromWadF(r.pricesAfter[outcome]) - fromWadF(s.prices[outcome]));
+      s = { meta, q: r.qAfter, T: r.qAfter.reduce((a, b) => a + b, 0n), bEff: r.bAfter, prices: r.pricesAfter };
+      agent.holdings[outcome] += side === "buy" ? dQ : -dQ;
+      trades++;
+    } catch {
+      rejected++;
+    }
+  };
+
+  for (let round = 1; round <= cfg.rounds; round++) {
+    for (const agent of agents) {
+      const [u1, u2, u3] = [rng(), rng(), rng()];
+      const p = s.prices.map(fromWadF);
+      const size = cfg.tradeSize;
+
+      if (agent.kind === "noise") {
+        if (u1 >= cfg.noiseActivity) continue;
+        const outcome = Math.floor(u2 * n);
+        const dQ = size * (0.5 + u3);
+        const canSell = agent.holdings[outcome] >= dQ;
+        trade(agent, canSell && u1 < cfg.noiseActivity / 2 ? "sell" : "buy", outcome, dQ);
+      } else if (agent.kind === "informed") {
+        const belief = agent.belief!;
+        const edges = belief.map((b, i) => b - p[i]);
+        const best = argmax(edges);
+        const over = edges.findIndex((e, i) => -e > cfg.edge && agent.holdings[i] > 0);
+        if (over >= 0) trade(agent, "sell", over, Math.min(size, agent.holdings[over]));
+        else if (edges[best] > cfg.edge) trade(agent, "buy", best, size);
+      } else {
+        const past = prices[Math.max(0, prices.length - cfg.lookback)];
+        const change = p.map((x, i) => x - past[i]);
+        const best = argmax(change);
+        const falling = change.findIndex((c, i) => c < -0.005 && agent.holdings[i] > 0);
+        if (falling >= 0) trade(agent, "sell", falling, Math.min(size, agent.holdings[falling]));
+        else if (change[best] > 0.005) trade(agent, "buy", best, size);
+      }
+    }
+    prices.push(s.prices.map(fromWadF));
+  }
+
+  return { prices, winner, mmPnl: fromWadF(collateral - s.q[winner]), impactSum, trades, rejected };
+}
+
+// ---------- Aggregation ----------
+export type FanPoint = {
+  round: number;
+  /** [p10, p90] and [p25, p75] ranges for Recharts range areas */
+  outer: [number, number];
+  inner: [number, number];
+  median: number;
+  truth: number;
+};
+
+export type MechSummary = {
+  /** fan[outcome][round] */
+  fan: FanPoint[][];
+  /** mean |p − p*| over outcomes and paths, per round */
+  errorByRound: number[];
+  mmPnl: number[];
+  avgImpact: number;
+  trades: number;
+  rejected: number;
+};
+
+export const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export function summarize(cfg: MonteCarloConfig, results: PathResult[]): MechSummary {
+  const truth = normalize(cfg.trueProbs);
+  const rounds = results[0]?.prices.length ?? 0;
+
+  const fan = truth.map((t, i) =>
+    Array.from({ length: rounds }, (_, r) => {
+      const xs = results.map((res) => res.prices[r][i]).sort((a, b) => a - b);
+      return {
+        round: r,
+        outer: [quantile(xs, 0.1), quantile(xs, 0.9)] as [number, number],
+        inner: [quantile(xs, 0.25), quantile(xs, 0.75)] as [number, number],
+        median: quantile(xs, 0.5),
+        truth: t,
+      };
+    }),
+  );
+
+  const errorByRound = Array.from({ length: rounds }, (_, r) => {
+    let sum = 0;
+    for (const res of results) for (let i = 0; i < truth.length; i++) sum += Math.abs(res.prices[r][i] - truth[i]);
+    return sum / (results.length * truth.length);
+  });
+
+  const trades = results.reduce((a, r) => a + r.trades, 0);
+  return {
+    fan,
+    errorByRound,
+    mmPnl: results.map((r) => r.mmPnl),
+    avgImpact: trades ? results.reduce((a, r) => a + r.impactSum, 0) / trades : 0,
+    trades,
+    rejected: results.reduce((a, r) => a + r.rejected, 0),
+  };
+}
+
+/** Shared-bin histogram so both mechanisms plot on the same x axis. */
+export function histogram(series: Record<string, number[]>, bins = 20) {
+  const all = Object.values(series).flat();
+  if (all.length === 0) return [];
+  const lo = Math.min(...all);
+  const hi = Math.max(...all);
+  const width = (hi - lo) / bins || 1;
+  return Array.from({ length: bins }, (_, b) => {
+    const row: Record<string, number | string> = { bin: (lo + (b + 0.5) * width).toFixed(3) };
+    for (const [name, xs] of Object.entries(series)) {
+      row[name] = xs.filter((x) => Math.min(bins - 1, Math.floor((x - lo) / width)) === b).length;
+    }
+    return row;
+  });
+}
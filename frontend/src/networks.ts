@@ -0,0 +1,152 @@
+// Network registry: which chain, RPC, AMM deployment and block explorer the on-chain
+// backend talks to. Built-ins are Sepolia and a local Anvil node; addresses come
+// from .env or from Foundry's broadcast/*/<chainId>/run-latest.json, and users can
+// add their own networks (persisted to localStorage).
+import { defineChain, http, webSocket } from "viem";
+import type { Chain, Transport } from "viem";
+import type { Hex } from "./backend";
+
+export type NetworkConfig = {
+  /** stable id used for storage keys and the selector */
+  key: string;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  ammAddress: Hex;
+  /** Blockscout / Etherscan base URL, null for local chains */
+  explorerUrl: string | null;
+  /** first block the event indexer scans */
+  deployBlock: bigint;
+};
+
+export type BroadcastDeployment = {
+  chainId: number;
+  ammAddress: Hex;
+  collateralAddress: Hex | null;
+  deployBlock: bigint;
+};
+
+const ZERO_ADDRESS: Hex = "0x0000000000000000000000000000000000000000";
+const isObj = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+const isAddress = (x: unknown): x is Hex => typeof x === "string" && /^0x[0-9a-fA-F]{40}$/.test(x);
+
+// ---------- Foundry broadcasts ----------
+/** Reads the LsLmsrAMM (and MockERC20) CREATEs out of a Foundry run-latest.json; null if it has none. */
+export function parseBroadcast(input: unknown): BroadcastDeployment | null {
+  const raw = typeof input === "string" ? JSON.parse(input) : input;
+  if (!isObj(raw) || !Array.isArray(raw.transactions)) return null;
+  const txs: unknown[] = raw.transactions;
+  const created = (name: string) =>
+    txs.find(
+      (t: unknown) => isObj(t) && t.transactionType === "CREATE" && t.contractName === name && isAddress(t.contractAddress),
+    ) as { contractAddress: Hex } | undefined;
+
+  const amm = created("LsLmsrAMM");
+  if (!amm) return null;
+  const receipts = Array.isArray(raw.receipts) ? raw.receipts.filter(isObj) : [];
+  const receipt = receipts.find(
+    (r) => typeof r.contractAddress === "string" && r.contractAddress.toLowerCase() === amm.contractAddress.toLowerCase(),
+  );
+  return {
+    chainId: Number(raw.chain),
+    ammAddress: amm.contractAddress,
+    collateralAddress: created("MockERC20")?.contractAddress ?? null,
+    deployBlock: typeof receipt?.blockNumber === "string" ? BigInt(receipt.blockNumber) : 0n,
+  };
+}
+
+// every deployment broadcast in the contracts workspace, bundled at build time
+const broadcastFiles = import.meta.glob("../../contracts/broadcast/*/*/run-latest.json", { eager: true, import: "default" });
+
+/** chainId → latest LsLmsrAMM deployment found in contracts/broadcast */
+export const BROADCAST_DEPLOYMENTS: Record<number, BroadcastDeployment> = Object.fromEntries(
+  Object.values(broadcastFiles).flatMap((json) => {
+    const d = parseBroadcast(json);
+    return d ? [[d.chainId, d]] : [];
+  }),
+);
+
+// ---------- Registry ----------
+const env = import.meta.env;
+const sepoliaDeployment = BROADCAST_DEPLOYMENTS[11155111];
+const anvilDeployment = BROADCAST_DEPLOYMENTS[31337];
+
+export const BUILTIN_NETWORKS: NetworkConfig[] = [
+  {
+    key: "sepolia",
+    name: "Sepolia",
+    chainId: 11155111,
+    rpcUrl: (env.VITE_RPC_URL as string | undefined) || "https://ethereum-sepolia-rpc.publicnode.com",
+    ammAddress: (env.VITE_AMM_ADDR as Hex | undefined) ?? sepoliaDeployment?.ammAddress ?? ZERO_ADDRESS,
+    explorerUrl: "https://eth-sepolia.blockscout.com",
+    deployBlock: BigInt((env.VITE_AMM_DEPLOY_BLOCK as string | undefined) || (sepoliaDeployment?.deployBlock ?? 0n)),
+  },
+  {
+    key: "anvil",
+    name: "Anvil (local)",
+    chainId: 31337,
+    rpcUrl: (env.VITE_ANVIL_RPC_URL as string | undefined) || "http://127.0.0.1:8545",
+    ammAddress: (env.VITE_ANVIL_AMM_ADDR as Hex | undefined) ?? anvilDeployment?.ammAddress ?? ZERO_ADDRESS,
+    explorerUrl: null,
+    deployBlock: anvilDeployment?.deployBlock ?? 0n,
+  },
+];
+
+/** Built-in network picked on first load: the one matching VITE_CHAIN_ID, else Sepolia. */
+export const DEFAULT_NETWORK_KEY =
+  BUILTIN_NETWORKS.find((n) => n.chainId === Number(env.VITE_CHAIN_ID))?.key ?? "sepolia";
+
+/** Checks a user-entered network; throws with the offending field. */
+export function validateNetwork(n: NetworkConfig): NetworkConfig {
+  if (!n.name.trim()) throw new Error("Network needs a name");
+  if (!Number.isInteger(n.chainId) || n.chainId <= 0) throw new Error("Chain id must be a positive integer");
+  if (!/^(https?|wss?):\/\//.test(n.rpcUrl)) throw new Error("RPC URL must start with http(s):// or ws(s)://");
+  if (!isAddress(n.ammAddress)) throw new Error("AMM address must be a 0x-prefixed 20-byte hex address");
+  if (n.explorerUrl !== null && !/^https?:\/\//.test(n.explorerUrl)) throw new Error("Explorer URL must start with http(s)://");
+  if (n.deployBlock < 0n) throw new Error("Deploy block must be ≥ 0");
+  return { ...n, name: n.name.trim(), explorerUrl: n.explorerUrl?.replace(/\/+$/, "") ?? null };
+}
+
+// ---------- Persistence ----------
+const STORAGE_KEY = "networks";
+
+export function loadCustomNetworks(): NetworkConfig[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap((x) => {
+      try {
+        return [validateNetwork({ ...x, deployBlock: BigInt(x.deployBlock ?? 0) })];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function storeCustomNetworks(list: NetworkConfig[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list.map((n) => ({ ...n, deployBlock: n.deployBlock.toString() }))));
+}
+
+export const allNetworks = (custom: NetworkConfig[]) => [...BUILTIN_NETWORKS, ...custom];
+
+// ---------- viem / explorer ----------
+const isWebSocketUrl = (url: string) => /^wss?:\/\//.test(url);
+
+export function chainOf(n: NetworkConfig): Chain {
+  return defineChain({
+    id: n.chainId,
+    name: n.name,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: isWebSocketUrl(n.rpcUrl) ? { http: [], webSocket: [n.rpcUrl] } : { http: [n.rpcUrl] } },
+    ...(n.explorerUrl && { blockExplorers: { default: { name: "Explorer", url: n.explorerUrl } } }),
+  });
+}
+
+/** viem transport for the network's RPC: WebSocket for ws(s):// URLs, HTTP otherwise. */
+export const transportOf = (n: NetworkConfig): Transport => (isWebSocketUrl(n.rpcUrl) ? webSocket(n.rpcUrl) : http(n.rpcUrl));
+
+/** Link to a tx on the network's explorer, null if it has none. */
+export const explorerTxUrl = (n: NetworkConfig, hash: Hex) => (n.explorerUrl ? `${n.explorerUrl}/tx/${hash}` : null);
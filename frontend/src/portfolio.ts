@@ -0,0 +1,113 @@
+// Portfolio valuation: a trader's userShares marked at current prices and at each
+// settlement outcome, with realized / unrealized P&L from their indexed trades
+// (average-cost basis per market and outcome). All amounts are WAD.
+import { WAD } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+import type { TradeEvent } from "./backend";
+
+/** Position built from trade history alone. */
+export type Lot = {
+  shares: bigint;
+  /** cost of the shares still held */
+  costBasis: bigint;
+  /** Σ (payout − average cost) over sells */
+  realized: bigint;
+};
+
+export type PositionRow = {
+  outcome: number;
+  /** userShares, the on-chain truth */
+  shares: bigint;
+  price: bigint;
+  /** shares × price */
+  markValue: bigint;
+  costBasis: bigint;
+  unrealized: bigint;
+  realized: bigint;
+};
+
+export type MarketPosition = {
+  marketId: number;
+  state: MarketState;
+  rows: PositionRow[];
+  markValue: bigint;
+  /** settlementValues[j]: what the position pays if outcome j wins */
+  settlementValues: bigint[];
+  costBasis: bigint;
+  unrealized: bigint;
+  realized: bigint;
+  /** false when userShares disagree with the indexed trades (history not fully synced) */
+  historyComplete: boolean;
+};
+
+export type PortfolioTotals = { markValue: bigint; costBasis: bigint; unrealized: bigint; realized: bigint };
+
+const lotKey = (marketId: number, outcome: number) => `${marketId}:${outcome}`;
+
+/** Replays trades (oldest first) into average-cost lots keyed by `${marketId}:${outcome}`. */
+export function lotsFromTrades(trades: readonly TradeEvent[]): Map<string, Lot> {
+  const lots = new Map<string, Lot>();
+  for (const t of trades) {
+    const k = lotKey(t.marketId, t.outcome);
+    const lot = lots.get(k) ?? { shares: 0n, costBasis: 0n, realized: 0n };
+    if (t.isBuy) {
+      lot.shares += t.dQWad;
+      lot.costBasis += t.costWad;
+    } else {
+      const avgCost = lot.shares > 0n ? (lot.costBasis * t.dQWad) / lot.shares : 0n;
+      lot.shares -= t.dQWad;
+      lot.costBasis -= avgCost;
+      lot.realized += t.costWad - avgCost;
+    }
+    lots.set(k, lot);
+  }
+  return lots;
+}
+
+export function valuePosition(
+  marketId: number,
+  state: MarketState,
+  shares: readonly bigint[],
+  lots: Map<string, Lot>,
+): MarketPosition {
+  let historyComplete = true;
+  const rows = shares.map((sh, outcome): PositionRow => {
+    const lot = lots.get(lotKey(marketId, outcome)) ?? { shares: 0n, costBasis: 0n, realized: 0n };
+    if (lot.shares !== sh) historyComplete = false;
+    const markValue = (sh * state.prices[outcome]) / WAD;
+    return {
+      outcome,
+      shares: sh,
+      price: state.prices[outcome],
+      markValue,
+      costBasis: lot.costBasis,
+      unrealized: markValue - lot.costBasis,
+      realized: lot.realized,
+    };
+  });
+  const sum = (f: (r: PositionRow) => bigint) => rows.reduce((a, r) => a + f(r), 0n);
+  return {
+    marketId,
+    state,
+    rows,
+    markValue: sum((r) => r.markValue),
+    // one share of the winning outcome redeems for 1 mUSD
+    settlementValues: rows.map((r) => r.shares),
+    costBasis: sum((r) => r.costBasis),
+    unrealized: sum((r) => r.unrealized),
+    realized: sum((r) => r.realized),
+    historyComplete,
+  };
+}
+
+export function portfolioTotals(positions: readonly MarketPosition[]): PortfolioTotals {
+  return positions.reduce(
+    (t, p) => ({
+      markValue: t.markValue + p.markValue,
+      costBasis: t.costBasis + p.costBasis,
+      unrealized: t.unrealized + p.unrealized,
+      realized: t.realized + p.realized,
+    }),
+    { markValue: 0n, costBasis: 0n, unrealized: 0n, realized: 0n },
+  );
+}
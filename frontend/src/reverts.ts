@@ -0,0 +1,123 @@
+// Turns failed writes into something a user can act on: the revert's custom error
+// (decoded by viem against AMM_ERRORS), a require() string, a panic code, a simulator
+// revert or a wallet rejection, mapped to a plain message and a suggested fix.
+import { BaseError, ContractFunctionRevertedError, UserRejectedRequestError } from "viem";
+import { TxCancelledError, TxDroppedError, TxRevertedError } from "./backend";
+import { LsLmsrMathError } from "./lsLmsrMath";
+import { SimRevertError } from "./simBackend";
+
+export type DecodedRevert = {
+  /** error name (`SlippageExceeded`), require string (`allowance`) or a synthetic tag */
+  name: string;
+  message: string;
+  fix: string | null;
+  /** the original error text, for the details toggle */
+  raw: string;
+};
+
+type Hint = { message: string; fix: string | null };
+
+const EXP_RANGE: Hint = {
+  message: "The trade pushes q_i / b past the range exp() can handle (about 133).",
+  fix: "Trade a smaller ΔQ, or use a market with a larger b₀.",
+};
+
+const HINTS: Record<string, Hint> = {
+  SlippageExceeded: {
+    message: "The price moved past your slippage bound between the quote and execution.",
+    fix: "Get a fresh quote, or raise Slippage %.",
+  },
+  SellExceedsHoldings: {
+    message: "You are selling more shares of this outcome than you hold.",
+    fix: "Lower ΔQ to at most your position (see Portfolio).",
+  },
+  StepsOutOfRange: { message: "Steps (K) must be between 1 and 64.", fix: "Set Steps (K) to 1–64." },
+  ExpInputTooLarge: EXP_RANGE,
+  PRBMath_UD60x18_Exp_InputTooBig: EXP_RANGE,
+  PRBMath_UD60x18_Exp2_InputTooBig: EXP_RANGE,
+  PRBMath_UD60x18_Log_InputTooSmall: {
+    message: "ln() got an input below 1; the market state is outside the math's domain.",
+    fix: "Trade a smaller ΔQ.",
+  },
+  NotEnoughQToSell: {
+    message: "The market has fewer shares of this outcome outstanding (q_i) than you are selling.",
+    fix: "Sell at most q_i.",
+  },
+  NegativeQ: { message: "The sell would take q_i below zero.", fix: "Sell at most q_i." },
+  ArithmeticUnderflow: {
+    message: "Arithmetic underflow in the contract, usually an LMSR sell larger than q_i.",
+    fix: "Sell at most q_i.",
+  },
+  MarketClosedErr: {
+    message: "This market is closed; trading has stopped for good.",
+    fix: "Load an open market or create a new one.",
+  },
+  InvalidOutcome: { message: "The outcome index is out of range for this market.", fix: "Pick an outcome from 0 to n − 1." },
+  InvalidN: { message: "Markets need 2–5 outcomes.", fix: "Set Outcomes to 2–5." },
+  InvalidMechanism: {
+    message: "Unknown mechanism, or its parameters are invalid.",
+    fix: "Choose LMSR or LS-PROXY (on-chain) and a b₀ > 0. LS-LMSR also needs α·n ≥ 1/133 (its seed starts at q_i / b = 1/(α·n), and exp() stops at 133); Capped needs b_max ≥ b₀.",
+  },
+  NoLiquidity: {
+    message: "An LS-LMSR market has b = α·Σq = 0, so it can't price anything.",
+    fix: "Leave the seed shares in the market; create a new one if it's empty.",
+  },
+  NotImplemented: { message: "This AMM deployment doesn't implement that function.", fix: null },
+  UnknownMarket: { message: "No market with this id exists on this AMM.", fix: "Check the market id, or create a market." },
+  // MockERC20 / AMM require() strings
+  allowance: {
+    message: "The AMM isn't approved to spend enough of your mUSD.",
+    fix: "Click Approve AMM to spend collateral.",
+  },
+  balance: { message: "Your mUSD balance is too low for this trade.", fix: "Lower the size, or mint more mUSD." },
+  transferFrom: { message: "The collateral transfer into the AMM failed.", fix: "Check your balance and allowance." },
+  transfer: { message: "The AMM couldn't pay out the collateral.", fix: null },
+  UserRejected: { message: "The request was rejected in the wallet.", fix: null },
+  // after submission
+  TxReverted: {
+    message: "The transaction was mined but reverted; the market moved between the dry-run and inclusion.",
+    fix: "Get a fresh quote and try again.",
+  },
+  TxCancelled: {
+    message: "The transaction was cancelled from the wallet; nothing was traded.",
+    fix: "Send it again if you still want it.",
+  },
+  TxDropped: {
+    message: "The transaction wasn't mined in time; it may have been dropped, or is still pending.",
+    fix: "Check the Transactions panel or the explorer before sending it again.",
+  },
+};
+
+// Solidity panic codes we can hit
+const PANICS: Record<number, string> = { 0x11: "ArithmeticUnderflow", 0x32: "UnknownMarket" };
+
+const SIM_PANICS: Record<string, string> = {
+  "Panic: arithmetic underflow": "ArithmeticUnderflow",
+  "Panic: array out-of-bounds (unknown market)": "UnknownMarket",
+};
+
+function errorName(e: unknown): string | null {
+  if (e instanceof SimRevertError) return SIM_PANICS[e.reason] ?? e.reason;
+  if (e instanceof LsLmsrMathError) return e.reason;
+  if (e instanceof TxRevertedError) return "TxReverted";
+  if (e instanceof TxDroppedError) return "TxDropped";
+  if (e instanceof TxCancelledError) return "TxCancelled";
+  if (!(e instanceof BaseError)) return null;
+  if (e.walk((x) => x instanceof UserRejectedRequestError)) return "UserRejected";
+  const revert = e.walk((x) => x instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) return null;
+  const data = revert.data;
+  if (data?.errorName === "Panic") return PANICS[Number(data.args?.[0])] ?? "Panic";
+  // Error(string) from require(): the reason string is the name
+  if (data && data.errorName !== "Error") return data.errorName;
+  return revert.reason ?? null;
+}
+
+/** Best-effort decoding of anything a backend write or quote can throw. */
+export function decodeRevert(e: unknown): DecodedRevert {
+  const raw = e instanceof BaseError ? e.shortMessage : e instanceof Error ? e.message : String(e);
+  const name = errorName(e);
+  const hint = name ? HINTS[name] : undefined;
+  if (name && hint) return { name, ...hint, raw };
+  return { name: name ?? "Error", message: name ? `Reverted with ${name}.` : raw, fix: null, raw };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { Mechanism, WAD, stateFromQ } from "./lsLmsrMath";
+import { newRun, parseRun, runToJson, snapshotsToCsv, tradesToCsv } from "./runExport";
+import type { RunExport } from "./runExport";
+
+const meta = { mech: Mechanism.LS_PROXY, n: 3, b0Wad: 5n * WAD, alphaWad: WAD / 10n, collateral: 7n * WAD, closed: false };
+
+function sampleRun(): RunExport {
+  const run = newRun(
+    "Round-trip, b=5",
+    { name: "Round-Trip", description: "buy, sell", steps: [{ side: "buy", outcome: 0, dQ: 1.5, repeat: 2, markets: [0] }] },
+    {
+      network: "simulator",
+      ammAddress: "0x0000000000000000000000000000000000000001",
+      stepsK: 16,
+      slippagePct: 0.5,
+      marketIds: [3, null],
+      schedule: { kind: "geometric", ratio: 1.5 },
+      delayMs: 250,
+    },
+  );
+  run.snapshots.push(
+    { step: 0, slot: 0, marketId: 3, state: stateFromQ(meta, [0n, 0n, 0n]) },
+    { step: 1, slot: 0, marketId: 3, state: stateFromQ({ ...meta, bCapWad: 9n * WAD }, [1_500000000000000000n, 0n, 0n]) },
+  );
+  run.trades.push({
+    step: 1, slot: 0, hash: "0xabc", kind: "buy", from: "0x0000000000000000000000000000000000000002", marketId: 3, outcome: 0,
+    dQWad: 1_500000000000000000n, quotedWad: 534034614038897347n, boundWad: 536704787109091833n,
+    actualWad: 534034614038897347n, slippageWad: 0n, blockNumber: 12n, gasUsed: 91_000n,
+  });
+  return run;
+}
+
+describe("parseRun", () => {
+  it("round-trips runToJson", () => {
+    const run = sampleRun();
+    const back = parseRun(runToJson(run));
+    expect(back.exportedAt).not.toBe("");
+    expect(back).toEqual({ ...run, exportedAt: back.exportedAt });
+  });
+
+  it("round-trips the states CSV, without trades", () => {
+    const run = sampleRun();
+    const back = parseRun(snapshotsToCsv(run));
+    expect(back).toEqual({ ...run, exportedAt: back.exportedAt, trades: [] });
+  });
+
+  it("rejects the trades CSV", () => {
+    expect(() => parseRun(tradesToCsv(sampleRun()))).toThrow("Only the states CSV of a run can be imported");
+  });
+
+  it.each([
+    ['{"format":"other"}', "Not an exported run"],
+    ["step,slot\n0,0\n", "Not an exported run CSV"],
+  ])("rejects %s", (text, message) => {
+    expect(() => parseRun(text)).toThrow(message);
+  });
+
+  it("names the offending field", () => {
+    const raw = JSON.parse(runToJson(sampleRun()));
+    raw.snapshots[1].state.q = ["1", "x", "0"];
+    expect(() => parseRun(JSON.stringify(raw))).toThrow("snapshots[1].state.q[1] must be an integer (WAD) string");
+    raw.snapshots[1].state.q = ["1", "0"];
+    expect(() => parseRun(JSON.stringify(raw))).toThrow("snapshots[1].state.q must have n = 3 entries");
+  });
+});
@@ -0,0 +1,319 @@
+// Export / import of Scenario Runner runs, market `state()` snapshots and the tx history.
+// JSON carries everything; CSV is one flat table with the parameters in leading `#` lines
+// (pandas: `read_csv(path, comment="#")`). WAD values are written as decimal integer
+// strings, so nothing is lost to float rounding.
+import type { Hex } from "./backend";
+import type { MarketState } from "./lsLmsrMath";
+import { parseScenario } from "./scenarios";
+import type { DqSchedule, Scenario } from "./scenarios";
+import type { TxRecord, TxSubmission } from "./txStore";
+
+export const RUN_FORMAT = "ls-lmsr-run";
+export const TXS_FORMAT = "ls-lmsr-txs";
+
+/** One `state()` read of the market in `slot` after runner step `step` (0 = before the first trade). */
+export type RunSnapshot = { step: number; slot: number; marketId: number; state: MarketState };
+
+export type RunTrade = TxSubmission & {
+  step: number;
+  slot: number;
+  /** from the tx's Trade event */
+  actualWad?: bigint;
+  slippageWad?: bigint;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+};
+
+export type RunParams = {
+  /** network name, or "simulator" */
+  network: string;
+  ammAddress: Hex;
+  stepsK: number;
+  slippagePct: number;
+  /** market id per runner slot, null for an empty slot */
+  marketIds: (number | null)[];
+  /** runner settings; absent on plain snapshots */
+  schedule?: DqSchedule;
+  delayMs?: number;
+};
+
+export type RunExport = {
+  format: typeof RUN_FORMAT;
+  version: 1;
+  name: string;
+  exportedAt: string;
+  /** null for a plain snapshot of the loaded markets */
+  scenario: Scenario | null;
+  params: RunParams;
+  snapshots: RunSnapshot[];
+  trades: RunTrade[];
+};
+
+export function newRun(name: string, scenario: Scenario | null, params: RunParams): RunExport {
+  return { format: RUN_FORMAT, version: 1, name, exportedAt: "", scenario, params, snapshots: [], trades: [] };
+}
+
+/** A step-0 run holding the current state of each loaded slot. */
+export function stateSnapshot(params: RunParams, states: readonly (MarketState | null)[]): RunExport {
+  const run = newRun("snapshot", null, params);
+  states.forEach((state, slot) => {
+    const marketId = params.marketIds[slot];
+    if (state && marketId !== null && marketId !== undefined) run.snapshots.push({ step: 0, slot, marketId, state });
+  });
+  return run;
+}
+
+export const exportFileName = (name: string, ext: "json" | "csv", suffix = "") =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "run"}${suffix}-${
+    new Date().toISOString().replace(/[:.]/g, "-")
+  }.${ext}`;
+
+// ---------- JSON ----------
+const stringify = (x: unknown) => JSON.stringify(x, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+
+export const runToJson = (run: RunExport) => stringify({ ...run, exportedAt: new Date().toISOString() });
+
+export const txsToJson = (network: string, records: readonly TxRecord[]) =>
+  stringify({ format: TXS_FORMAT, version: 1, network, exportedAt: new Date().toISOString(), records });
+
+// ---------- CSV ----------
+const cell = (v: unknown) => {
+  if (v === undefined || v === null) return "";
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const table = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map((r) => r.map(cell).join(",")).join("\n") + "\n";
+
+const comments = (run: RunExport) =>
+  [
+    ["format", run.format],
+    ["version", run.version],
+    ["name", run.name.replace(/\s+/g, " ")],
+    ["exportedAt", new Date().toISOString()],
+    ["network", run.params.network],
+    ["ammAddress", run.params.ammAddress],
+    ["stepsK", run.params.stepsK],
+    ["slippagePct", run.params.slippagePct],
+    ["marketIds", run.params.marketIds.map((m) => m ?? "").join(";")],
+    ["schedule", run.params.schedule ? JSON.stringify(run.params.schedule) : ""],
+    ["delayMs", run.params.delayMs ?? ""],
+    ["scenario", run.scenario ? JSON.stringify(run.scenario) : ""],
+  ]
+    .map(([k, v]) => `# ${k}=${v}\n`)
+    .join("");
+
+const outcomesIn = (run: RunExport) => Math.max(0, ...run.snapshots.map((s) => s.state.meta.n));
+
+/** One row per snapshot: market params, T, bEff, then q_i and p_i for every outcome. */
+export function snapshotsToCsv(run: RunExport): string {
+  const n = outcomesIn(run);
+  const idx = Array.from({ length: n }, (_, i) => i);
+  const header = [
+    "step", "slot", "marketId", "mech", "n", "b0_wad", "alpha_wad", "bCap_wad", "collateral_wad", "closed", "T_wad",
+    "bEff_wad", ...idx.map((i) => `q${i}_wad`), ...idx.map((i) => `p${i}_wad`),
+  ];
+  const rows = run.snapshots.map(({ step, slot, marketId, state: { meta, q, T, bEff, prices } }) => [
+    step, slot, marketId, meta.mech, meta.n, meta.b0Wad, meta.alphaWad, meta.bCapWad, meta.collateral, meta.closed, T,
+    bEff, ...idx.map((i) => q[i]), ...idx.map((i) => prices[i]),
+  ]);
+  return comments(run) + table(header, rows);
+}
+
+export function tradesToCsv(run: RunExport): string {
+  const header = [
+    "step", "slot", "marketId", "side", "outcome", "dQ_wad", "quoted_wad", "bound_wad", "actual_wad", "slippage_wad",
+    "blockNumber", "gasUsed", "hash",
+  ];
+  const rows = run.trades.map((t) => [
+    t.step, t.slot, t.marketId, t.kind, t.outcome, t.dQWad, t.quotedWad, t.boundWad, t.actualWad, t.slippageWad,
+    t.blockNumber, t.gasUsed, t.hash,
+  ]);
+  return comments(run) + table(header, rows);
+}
+
+export function txsToCsv(network: string, records: readonly TxRecord[]): string {
+  const header = [
+    "submittedAt", "hash", "kind", "status", "from", "marketId", "outcome", "dQ_wad", "quoted_wad", "bound_wad",
+    "actual_wad", "slippage_wad", "blockNumber", "gasUsed", "effectiveGasPrice_wei", "replacedBy", "error",
+  ];
+  const rows = records.map((t) => [
+    new Date(t.submittedAt).toISOString(), t.hash, t.kind, t.status, t.from, t.marketId, t.outcome, t.dQWad, t.quotedWad,
+    t.boundWad, t.actualWad, t.slippageWad, t.blockNumber, t.gasUsed, t.effectiveGasPrice, t.replacedBy, t.error,
+  ]);
+  return `# format=${TXS_FORMAT}\n# network=${network}\n` + table(header, rows);
+}
+
+// ---------- Import ----------
+const isObj = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+
+function big(x: unknown, at: string): bigint {
+  if ((typeof x === "string" && /^-?\d+$/.test(x)) || Number.isSafeInteger(x)) return BigInt(x as string | number);
+  throw new Error(`${at} must be an integer (WAD) string`);
+}
+
+const optBig = (x: unknown, at: string) => (x === undefined || x === null || x === "" ? undefined : big(x, at));
+
+function int(x: unknown, at: string): number {
+  const v = typeof x === "string" && x.trim() !== "" ? Number(x) : x;
+  if (!Number.isInteger(v)) throw new Error(`${at} must be an integer`);
+  return v as number;
+}
+
+function hex(x: unknown, at: string): Hex {
+  if (typeof x !== "string" || !/^0x[0-9a-fA-F]*$/.test(x)) throw new Error(`${at} must be a 0x hex string`);
+  return x as Hex;
+}
+
+function parseState(x: unknown, at: string): MarketState {
+  if (!isObj(x) || !isObj(x.meta)) throw new Error(`${at} must have "meta", "q", "T", "bEff" and "prices"`);
+  const m = x.meta;
+  const n = int(m.n, `${at}.meta.n`);
+  const bCapWad = optBig(m.bCapWad, `${at}.meta.bCapWad`);
+  const vec = (v: unknown, name: string) => {
+    if (!Array.isArray(v) || v.length !== n) throw new Error(`${at}.${name} must have n = ${n} entries`);
+    return v.map((e, i) => big(e, `${at}.${name}[${i}]`));
+  };
+  return {
+    meta: {
+      mech: int(m.mech, `${at}.meta.mech`),
+      n,
+      b0Wad: big(m.b0Wad, `${at}.meta.b0Wad`),
+      alphaWad: big(m.alphaWad, `${at}.meta.alphaWad`),
+      ...(bCapWad !== undefined && { bCapWad }),
+      collateral: big(m.collateral, `${at}.meta.collateral`),
+      closed: m.closed === true || m.closed === "true",
+    },
+    q: vec(x.q, "q"),
+    T: big(x.T, `${at}.T`),
+    bEff: big(x.bEff, `${at}.bEff`),
+    prices: vec(x.prices, "prices"),
+  };
+}
+
+function parseSchedule(x: unknown): DqSchedule {
+  const raw = typeof x === "string" ? JSON.parse(x) : x;
+  if (isObj(raw)) {
+    if (raw.kind === "constant") return { kind: "constant" };
+    if (raw.kind === "linear" && typeof raw.increment === "number") return { kind: "linear", increment: raw.increment };
+    if (raw.kind === "geometric" && typeof raw.ratio === "number" && raw.ratio > 0) return { kind: "geometric", ratio: raw.ratio };
+  }
+  throw new Error("params.schedule must be constant, linear {increment} or geometric {ratio}");
+}
+
+function parseParams(x: unknown): RunParams {
+  if (!isObj(x)) throw new Error("Run needs a \"params\" object");
+  if (!Array.isArray(x.marketIds)) throw new Error("params.marketIds must be an array");
+  return {
+    network: String(x.network ?? ""),
+    ammAddress: hex(x.ammAddress, "params.ammAddress"),
+    stepsK: int(x.stepsK, "params.stepsK"),
+    slippagePct: Number(x.slippagePct),
+    marketIds: x.marketIds.map((m, i) => (m === null || m === "" ? null : int(m, `params.marketIds[${i}]`))),
+    ...(x.schedule !== undefined && x.schedule !== "" && { schedule: parseSchedule(x.schedule) }),
+    ...(x.delayMs !== undefined && x.delayMs !== "" && { delayMs: int(x.delayMs, "params.delayMs") }),
+  };
+}
+
+function parseRunJson(raw: unknown): RunExport {
+  if (!isObj(raw) || raw.format !== RUN_FORMAT) throw new Error(`Not an exported run (format must be "${RUN_FORMAT}")`);
+  if (raw.version !== 1) throw new Error(`Unsupported run version ${String(raw.version)}`);
+  if (!Array.isArray(raw.snapshots) || !Array.isArray(raw.trades)) {
+    throw new Error("Run needs \"snapshots\" and \"trades\" arrays");
+  }
+  return {
+    format: RUN_FORMAT,
+    version: 1,
+    name: String(raw.name ?? "imported run"),
+    exportedAt: String(raw.exportedAt ?? ""),
+    scenario: raw.scenario === null || raw.scenario === undefined ? null : parseScenario(raw.scenario),
+    params: parseParams(raw.params),
+    snapshots: raw.snapshots.map((s: unknown, i: number): RunSnapshot => {
+      const at = `snapshots[${i}]`;
+      if (!isObj(s)) throw new Error(`${at} must be an object`);
+      return {
+        step: int(s.step, `${at}.step`),
+        slot: int(s.slot, `${at}.slot`),
+        marketId: int(s.marketId, `${at}.marketId`),
+        state: parseState(s.state, `${at}.state`),
+      };
+    }),
+    trades: raw.trades.map((t: unknown, i: number): RunTrade => {
+      const at = `trades[${i}]`;
+      if (!isObj(t)) throw new Error(`${at} must be an object`);
+      if (t.kind !== "buy" && t.kind !== "sell") throw new Error(`${at}.kind must be "buy" or "sell"`);
+      return {
+        step: int(t.step, `${at}.step`),
+        slot: int(t.slot, `${at}.slot`),
+        hash: hex(t.hash, `${at}.hash`),
+        kind: t.kind,
+        from: hex(t.from, `${at}.from`),
+        marketId: int(t.marketId, `${at}.marketId`),
+        outcome: int(t.outcome, `${at}.outcome`),
+        dQWad: big(t.dQWad, `${at}.dQWad`),
+        quotedWad: optBig(t.quotedWad, `${at}.quotedWad`),
+        boundWad: optBig(t.boundWad, `${at}.boundWad`),
+        actualWad: optBig(t.actualWad, `${at}.actualWad`),
+        slippageWad: optBig(t.slippageWad, `${at}.slippageWad`),
+        blockNumber: optBig(t.blockNumber, `${at}.blockNumber`),
+        gasUsed: optBig(t.gasUsed, `${at}.gasUsed`),
+      };
+    }),
+  };
+}
+
+/** Reads a states CSV written by snapshotsToCsv back into a run (without trades). */
+function parseRunCsv(text: string): RunExport {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  const meta: Record<string, string> = {};
+  for (const l of lines.filter((l) => l.startsWith("#"))) {
+    const m = /^#\s*([^=]+)=(.*)$/.exec(l);
+    if (m) meta[m[1].trim()] = m[2];
+  }
+  if (meta.format !== RUN_FORMAT) throw new Error(`Not an exported run CSV (missing "# format=${RUN_FORMAT}")`);
+  const [header, ...rows] = lines.filter((l) => !l.startsWith("#")).map((l) => l.split(","));
+  if (!header?.includes("T_wad")) throw new Error("Only the states CSV of a run can be imported");
+  const col = (row: string[], name: string) => row[header.indexOf(name)];
+
+  const snapshots = rows.map((row, i): RunSnapshot => {
+    const n = int(col(row, "n"), `row ${i + 1}: n`);
+    const idx = Array.from({ length: n }, (_, k) => k);
+    const state = parseState(
+      {
+        meta: {
+          mech: col(row, "mech"), n, b0Wad: col(row, "b0_wad"), alphaWad: col(row, "alpha_wad"), bCapWad: col(row, "bCap_wad"),
+          collateral: col(row, "collateral_wad"), closed: col(row, "closed"),
+        },
+        q: idx.map((k) => col(row, `q${k}_wad`)),
+        T: col(row, "T_wad"),
+        bEff: col(row, "bEff_wad"),
+        prices: idx.map((k) => col(row, `p${k}_wad`)),
+      },
+      `row ${i + 1}`,
+    );
+    const at = (name: string) => `row ${i + 1}: ${name}`;
+    return {
+      step: int(col(row, "step"), at("step")),
+      slot: int(col(row, "slot"), at("slot")),
+      marketId: int(col(row, "marketId"), at("marketId")),
+      state,
+    };
+  });
+
+  return {
+    format: RUN_FORMAT,
+    version: 1,
+    name: meta.name || "imported run",
+    exportedAt: meta.exportedAt ?? "",
+    scenario: meta.scenario ? parseScenario(meta.scenario) : null,
+    params: parseParams({ ...meta, marketIds: (meta.marketIds ?? "").split(";") }),
+    snapshots,
+    trades: [],
+  };
+}
+
+/** Validates a file written by runToJson or snapshotsToCsv; throws with the offending field. */
+export function parseRun(text: string): RunExport {
+  return text.trimStart().startsWith("{") ? parseRunJson(JSON.parse(text)) : parseRunCsv(text);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { Mechanism, WAD, stateFromQ } from "./lsLmsrMath";
+import { BUILTIN_SCENARIOS, findRangeViolation, parseScenario, runnerSteps } from "./scenarios";
+import type { Scenario } from "./scenarios";
+
+describe("parseScenario", () => {
+  it.each(BUILTIN_SCENARIOS)("round-trips $name", (sc) => {
+    expect(parseScenario(JSON.stringify(sc))).toEqual(sc);
+  });
+
+  it("trims the name and drops unknown fields", () => {
+    expect(parseScenario({ name: "  s ", extra: 1, steps: [{ side: "sell", outcome: 2, dQ: 0.5, note: "x" }] })).toEqual({
+      name: "s",
+      steps: [{ side: "sell", outcome: 2, dQ: 0.5 }],
+    });
+  });
+
+  it.each([
+    [[], "Scenario must be a JSON object"],
+    [{ name: " ", steps: [] }, "non-empty \"name\""],
+    [{ name: "s", steps: [] }, "non-empty \"steps\""],
+    [{ name: "s", steps: [{ side: "hold", outcome: 0, dQ: 1 }] }, "steps[0].side"],
+    [{ name: "s", steps: [{ side: "buy", outcome: 5, dQ: 1 }] }, "steps[0].outcome"],
+    [{ name: "s", steps: [{ side: "buy", outcome: 0, dQ: 1 }, { side: "buy", outcome: 0, dQ: 0 }] }, "steps[1].dQ"],
+    [{ name: "s", steps: [{ side: "buy", outcome: 0, dQ: 1, repeat: 1.5 }] }, "steps[0].repeat"],
+    [{ name: "s", steps: [{ side: "buy", outcome: 0, dQ: 1, markets: [8] }] }, "steps[0].markets"],
+    [{ name: "s", steps: [{ side: "buy", outcome: 0, dQ: 1, snapshot: "no" }] }, "steps[0].snapshot"],
+  ])("rejects %j", (input, message) => {
+    expect(() => parseScenario(input)).toThrow(message);
+  });
+});
+
+describe("runnerSteps", () => {
+  const sc: Scenario = {
+    name: "s",
+    steps: [
+      { side: "buy", outcome: 0, dQ: 2, repeat: 2 },
+      { side: "sell", outcome: 1, dQ: 2 },
+    ],
+  };
+
+  it("unrolls repeat", () => {
+    expect(runnerSteps(sc).map((s) => [s.side, s.dQ])).toEqual([["buy", 2], ["buy", 2], ["sell", 2]]);
+  });
+
+  it("applies linear and geometric schedules by step number", () => {
+    expect(runnerSteps(sc, { kind: "linear", increment: 0.5 }).map((s) => s.dQ)).toEqual([2, 2.5, 3]);
+    expect(runnerSteps(sc, { kind: "geometric", ratio: 3 }).map((s) => s.dQ)).toEqual([2, 6, 18]);
+  });
+
+  it("rejects a schedule that takes ΔQ off the 1e-6 grid", () => {
+    expect(() => runnerSteps(sc, { kind: "linear", increment: -1 })).toThrow("Step 3: the schedule takes ΔQ to 0");
+    expect(() => runnerSteps(sc, { kind: "geometric", ratio: 1e-4 })).toThrow(/^Step 3/);
+  });
+});
+
+describe("findRangeViolation", () => {
+  // q_0 / b passes 133 on the second buy of 100 at b = 1
+  const sc: Scenario = { name: "s", steps: [{ side: "buy", outcome: 0, dQ: 100, repeat: 3 }] };
+  const lmsr = (b0Wad: bigint) =>
+    stateFromQ({ mech: Mechanism.LMSR, n: 2, b0Wad, alphaWad: 0n, collateral: 0n, closed: false }, [0n, 0n]);
+
+  it("reports the first buy past exp's range, with what could still be bought", () => {
+    expect(findRangeViolation(sc, [lmsr(10n * WAD), null, lmsr(WAD)], 1)).toEqual({
+      step: 2, slot: 2, outcome: 0, dQ: 100, maxBuy: 33,
+    });
+  });
+
+  it("returns null when every buy fits", () => {
+    expect(findRangeViolation(sc, [lmsr(10n * WAD)], 1)).toBeNull();
+  });
+
+  it("only replays the slots a step names", () => {
+    const only0: Scenario = { name: "s", steps: [{ side: "buy", outcome: 0, dQ: 100, repeat: 3, markets: [0] }] };
+    expect(findRangeViolation(only0, [lmsr(10n * WAD), lmsr(WAD)], 1)).toBeNull();
+  });
+
+  it("leaves other reverts to the AMM", () => {
+    const sell: Scenario = { name: "s", steps: [{ side: "sell", outcome: 0, dQ: 1 }, { side: "buy", outcome: 0, dQ: 500 }] };
+    expect(findRangeViolation(sell, [lmsr(WAD)], 1)).toBeNull();
+  });
+});
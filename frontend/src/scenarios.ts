@@ -0,0 +1,191 @@
+// Scenario definitions for the Scenario Runner: a JSON list of trade steps that is
+// replayed against the loaded markets, plus localStorage and file import/export.
+import { LsLmsrMathError, WAD, quoteLocal, stateFromQ } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+import { maxBuyable } from "./tradeSizing";
+
+export type ScenarioStep = {
+  side: "buy" | "sell";
+  outcome: number;
+  /** shares per trade (ΔQ) */
+  dQ: number;
+  /** market slots to trade in (indexes into the runner's market list); default: every market */
+  markets?: number[];
+  /** run this step this many times in a row (default 1) */
+  repeat?: number;
+  /** record a chart point after the step (default true) */
+  snapshot?: boolean;
+};
+
+export type Scenario = {
+  name: string;
+  description?: string;
+  steps: ScenarioStep[];
+};
+
+export const BUILTIN_SCENARIOS: Scenario[] = [
+  {
+    name: "Same Outcome ×10 (ΔQ=1)",
+    description: "Two phases of five buys on outcome 0.",
+    steps: [
+      { side: "buy", outcome: 0, dQ: 1, repeat: 5 },
+      { side: "buy", outcome: 0, dQ: 1, repeat: 5 },
+    ],
+  },
+  {
+    name: "Alternating Outcomes (0↔1)",
+    description: "Buys alternating between outcomes 0 and 1.",
+    steps: [0, 1, 0, 1, 0, 1].map((outcome) => ({ side: "buy" as const, outcome, dQ: 1 })),
+  },
+  {
+    name: "Round-Trip (Buy then Sell)",
+    description: "Five buys on outcome 0, then sell the same amounts back.",
+    steps: [
+      { side: "buy", outcome: 0, dQ: 1, repeat: 5 },
+      { side: "sell", outcome: 0, dQ: 1, repeat: 5 },
+    ],
+  },
+];
+
+/** most markets one run can compare */
+export const MAX_SCENARIO_SLOTS = 8;
+
+const isObj = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+
+/** Validates untrusted JSON (editor, file, localStorage) into a Scenario; throws with the offending step. */
+export function parseScenario(input: unknown): Scenario {
+  const raw = typeof input === "string" ? JSON.parse(input) : input;
+  if (!isObj(raw)) throw new Error("Scenario must be a JSON object");
+  if (typeof raw.name !== "string" || !raw.name.trim()) throw new Error("Scenario needs a non-empty \"name\"");
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) throw new Error("Scenario needs a non-empty \"steps\" array");
+
+  const steps = raw.steps.map((s: unknown, i: number): ScenarioStep => {
+    const at = `steps[${i}]`;
+    if (!isObj(s)) throw new Error(`${at} must be an object`);
+    if (s.side !== "buy" && s.side !== "sell") throw new Error(`${at}.side must be "buy" or "sell"`);
+    if (!Number.isInteger(s.outcome) || (s.outcome as number) < 0 || (s.outcome as number) > 4) {
+      throw new Error(`${at}.outcome must be an integer in [0, 4]`);
+    }
+    if (typeof s.dQ !== "number" || !(s.dQ > 0)) throw new Error(`${at}.dQ must be a positive number`);
+    if (s.repeat !== undefined && (!Number.isInteger(s.repeat) || (s.repeat as number) < 1)) {
+      throw new Error(`${at}.repeat must be a positive integer`);
+    }
+    if (s.snapshot !== undefined && typeof s.snapshot !== "boolean") throw new Error(`${at}.snapshot must be a boolean`);
+    if (s.markets !== undefined) {
+      const ok = Array.isArray(s.markets) && s.markets.length > 0 &&
+        s.markets.every((m) => Number.isInteger(m) && m >= 0 && m < MAX_SCENARIO_SLOTS);
+      if (!ok) throw new Error(`${at}.markets must list slots 0–${MAX_SCENARIO_SLOTS - 1}`);
+    }
+    return {
+      side: s.side,
+      outcome: s.outcome as number,
+      dQ: s.dQ,
+      ...(s.markets !== undefined && { markets: s.markets as number[] }),
+      ...(s.repeat !== undefined && { repeat: s.repeat as number }),
+      ...(s.snapshot !== undefined && { snapshot: s.snapshot }),
+    };
+  });
+
+  return {
+    name: raw.name.trim(),
+    ...(typeof raw.description === "string" && { description: raw.description }),
+    steps,
+  };
+}
+
+/** Unrolls `repeat` so each entry is one numbered runner step. */
+export function expandSteps(sc: Scenario): ScenarioStep[] {
+  return sc.steps.flatMap((s) => Array.from({ length: s.repeat ?? 1 }, () => s));
+}
+
+// ---------- ΔQ schedule ----------
+/** How the runner scales each step's ΔQ with the step number k (1-based). */
+export type DqSchedule =
+  | { kind: "constant" }
+  /** dQ + (k − 1) · increment */
+  | { kind: "linear"; increment: number }
+  /** dQ · ratio^(k − 1) */
+  | { kind: "geometric"; ratio: number };
+
+export const CONSTANT_SCHEDULE: DqSchedule = { kind: "constant" };
+
+export function scheduledDq(dQ: number, k: number, schedule: DqSchedule): number {
+  switch (schedule.kind) {
+    case "constant": return dQ;
+    case "linear": return dQ + (k - 1) * schedule.increment;
+    case "geometric": return dQ * schedule.ratio ** (k - 1);
+  }
+}
+
+/** expandSteps with the schedule applied; throws if a step's ΔQ comes out ≤ 0 or too small for the 1e-6 grid. */
+export function runnerSteps(sc: Scenario, schedule: DqSchedule = CONSTANT_SCHEDULE): ScenarioStep[] {
+  return expandSteps(sc).map((s, i) => {
+    const dQ = scheduledDq(s.dQ, i + 1, schedule);
+    if (!(Math.round(dQ * 1e6) > 0)) throw new Error(`Step ${i + 1}: the schedule takes ΔQ to ${dQ}`);
+    return { ...s, dQ };
+  });
+}
+
+export type RangeViolation = { step: number; slot: number; outcome: number; dQ: number; maxBuy: number };
+
+/**
+ * Replays the scenario on local copies of the slot states and returns the first buy that
+ * would revert with ExpInputTooLarge, or null. A slot whose replay fails for any other
+ * reason is not checked further (the AMM reports that one itself).
+ */
+export function findRangeViolation(
+  sc: Scenario,
+  states: readonly (MarketState | null)[],
+  stepsK: number,
+  schedule: DqSchedule = CONSTANT_SCHEDULE,
+): RangeViolation | null {
+  const cur = [...states];
+  const steps = runnerSteps(sc, schedule);
+  for (let k = 1; k <= steps.length; k++) {
+    const st = steps[k - 1];
+    for (const slot of st.markets ?? states.map((_, i) => i)) {
+      const s = cur[slot];
+      if (!s) continue;
+      const dQWad = BigInt(Math.round(st.dQ * 1e6)) * (WAD / 1_000_000n);
+      try {
+        cur[slot] = stateFromQ(s.meta, quoteLocal(s, st.side, st.outcome, dQWad, stepsK).qAfter);
+      } catch (e) {
+        cur[slot] = null;
+        if (st.side === "buy" && e instanceof LsLmsrMathError && e.reason === "ExpInputTooLarge") {
+          const maxBuy = Number(maxBuyable(s, st.outcome, stepsK)) / 1e18;
+          return { step: k, slot, outcome: st.outcome, dQ: st.dQ, maxBuy };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// ---------- Persistence ----------
+const STORAGE_KEY = "scenarios";
+
+export function loadSavedScenarios(): Scenario[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(raw) ? raw.flatMap((x) => { try { return [parseScenario(x)]; } catch { return []; } }) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedScenarios(list: Scenario[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+}
+
+/** Triggers a browser download of `text`. */
+export function downloadFile(filename: string, text: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const scenarioFileName = (sc: Scenario) =>
+  `scenario-${sc.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")}.json`;
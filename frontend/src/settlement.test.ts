@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Mechanism, WAD, bOfT, costLsLmsr, initialQ, lnWad, stateFromQ } from "./lsLmsrMath";
+import type { MarketMeta } from "./lsLmsrMath";
+import { settlementTable, subsidyNeeded, worstCaseLossBound } from "./settlement";
+
+const meta = (mech: Mechanism, collateral: bigint, alphaWad = WAD / 10n): MarketMeta =>
+  ({ mech, n: 3, b0Wad: 5n * WAD, alphaWad, collateral, closed: false });
+
+describe("settlementTable / subsidyNeeded", () => {
+  it("charges q_i per outcome against the collateral", () => {
+    const s = stateFromQ(meta(Mechanism.LMSR, 3n * WAD), [4n * WAD, WAD, 0n]);
+    expect(settlementTable(s)).toEqual([
+      { outcome: 0, liability: 4n * WAD, surplus: -WAD },
+      { outcome: 1, liability: WAD, surplus: 2n * WAD },
+      { outcome: 2, liability: 0n, surplus: 3n * WAD },
+    ]);
+    expect(subsidyNeeded(s)).toBe(WAD);
+  });
+
+  it("needs no subsidy when every outcome is covered", () => {
+    expect(subsidyNeeded(stateFromQ(meta(Mechanism.LMSR, 5n * WAD), [4n * WAD, WAD, 0n]))).toBe(0n);
+  });
+
+  it("leaves out the maker's LS-LMSR seed", () => {
+    const m = meta(Mechanism.LS_LMSR, 0n);
+    const seed = initialQ(m);
+    const s = stateFromQ(m, [seed[0] + 2n * WAD, seed[1], seed[2]]);
+    expect(settlementTable(s).map((r) => r.liability)).toEqual([2n * WAD, 0n, 0n]);
+  });
+});
+
+describe("worstCaseLossBound", () => {
+  const lnN = lnWad(3n * WAD);
+
+  it("LMSR: b·ln n", () => {
+    expect(worstCaseLossBound(stateFromQ(meta(Mechanism.LMSR, 0n, 0n), [7n * WAD, 0n, 0n]))).toBe(5n * lnN);
+  });
+
+  it("LS-PROXY: b(T)·ln n at the current T", () => {
+    const s = stateFromQ(meta(Mechanism.LS_PROXY, 0n), [7n * WAD, 3n * WAD, 0n]);
+    expect(worstCaseLossBound(s)).toBe((bOfT(5n * WAD, WAD / 10n, 10n * WAD) * lnN) / WAD);
+  });
+
+  it("LS-LMSR: C(q0) − q0_i", () => {
+    const m = meta(Mechanism.LS_LMSR, 0n);
+    const q0 = initialQ(m);
+    const bound = worstCaseLossBound(stateFromQ(m, q0));
+    expect(bound).toBe(costLsLmsr(q0, m.alphaWad) - q0[0]);
+    expect(bound).toBeGreaterThan(0n);
+  });
+});
@@ -0,0 +1,42 @@
+// Settlement / solvency arithmetic: every outstanding share of the winning outcome
+// pays 1 mUSD, so resolving to outcome i costs the AMM q_i against its collateral.
+// Shares the maker seeded the market with (LS-LMSR) pay the maker itself and don't count.
+import { Mechanism, WAD, bEffOf, costLsLmsr, initialQ, lnWad } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+
+export type SettlementRow = {
+  outcome: number;
+  /** traders' q_i shares × 1 mUSD (WAD) */
+  liability: bigint;
+  /** collateral − liability; negative means the AMM cannot pay out in full */
+  surplus: bigint;
+};
+
+export function settlementTable(s: MarketState): SettlementRow[] {
+  const seed = initialQ(s.meta);
+  return s.q.map((qi, outcome) => {
+    const liability = qi - seed[outcome];
+    return { outcome, liability, surplus: s.meta.collateral - liability };
+  });
+}
+
+/** Deficit of the worst resolution, 0 if every outcome is covered. */
+export function subsidyNeeded(s: MarketState): bigint {
+  const worst = settlementTable(s).reduce((m, r) => (r.surplus < m ? r.surplus : m), 0n);
+  return -worst;
+}
+
+/**
+ * Theoretical bound on the market maker's loss, in WAD.
+ * LMSR: b·ln n. LS-PROXY and the other b(T) models: b(T)·ln n at the current T; this is
+ * exact for buy-only histories, and each unit of T sold and bought back can add up to
+ * α·ln n more. LS-LMSR: C(q0) − q0_i, since C(q) ≥ max_i q_i.
+ */
+export function worstCaseLossBound(s: MarketState): bigint {
+  if (s.meta.mech === Mechanism.LS_LMSR) {
+    const q0 = initialQ(s.meta);
+    return costLsLmsr(q0, s.meta.alphaWad) - q0[0];
+  }
+  const lnN = lnWad(BigInt(s.meta.n) * WAD);
+  return (bEffOf(s.meta, s.T) * lnN) / WAD;
+}
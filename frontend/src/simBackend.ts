@@ -0,0 +1,301 @@
+// In-memory LsLmsrAMM + MockERC20 for the offline "Simulator" mode. Quotes and trades
+// go through lsLmsrMath.ts, so they match the deployed contract to the wei; state is
+// persisted to localStorage so markets survive a reload. Unlike the contract it also
+// accepts lsLmsrMath's simulator-only mechanisms.
+import { keccak256, toHex } from "viem";
+import { MAX_UINT256, TxDroppedError } from "./backend";
+import type { AmmBackend, AmmEvent, CreateMarketArgs, Hex } from "./backend";
+import { LsLmsrMathError, MAX_EXP_INPUT_WAD, MAX_STEPS, MECHANISMS, Mechanism, WAD, initialQ, quoteBuy, quoteSell, stateFromQ } from "./lsLmsrMath";
+import type { MarketMeta } from "./lsLmsrMath";
+
+export const SIM_AMM_ADDRESS: Hex = "0x5100000000000000000000000000000000000a3a";
+export const SIM_COLLATERAL_ADDRESS: Hex = "0x51000000000000000000000000000000000005d0";
+
+export const SIM_ACCOUNTS: { label: string; address: Hex }[] = [
+  { label: "Alice", address: "0x00000000000000000000000000000000000a11ce" },
+  { label: "Bob", address: "0x0000000000000000000000000000000000000b0b" },
+  { label: "Carol", address: "0x00000000000000000000000000000000000ca401" },
+];
+
+/** Starting mUSD balance of each simulated account. */
+export const SIM_INITIAL_BALANCE = 1_000n * WAD;
+
+const STORAGE_KEY = "simState";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A simulated revert; `reason` is the Solidity error name or require message. */
+export class SimRevertError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Simulated revert: ${reason}`);
+    this.name = "SimRevertError";
+    this.reason = reason;
+  }
+}
+
+type SimMarket = { meta: MarketMeta; q: bigint[] };
+
+type SimState = {
+  nonce: number;
+  markets: SimMarket[];
+  /** `${marketId}:${user}:${outcome}` → shares (WAD) */
+  shares: Record<string, bigint>;
+  balances: Record<Hex, bigint>;
+  allowances: Record<Hex, bigint>;
+  /** AMM event log; block number = nonce of the emitting tx */
+  events: AmmEvent[];
+  /** tx hash → block (nonce) it was mined in */
+  receipts: Record<Hex, number>;
+};
+
+const freshState = (): SimState => ({
+  nonce: 0,
+  markets: [],
+  shares: {},
+  balances: Object.fromEntries(SIM_ACCOUNTS.map((a) => [a.address, SIM_INITIAL_BALANCE])),
+  allowances: {},
+  events: [],
+  receipts: {},
+});
+
+// bigints are stored as "123n" strings
+const load = (): SimState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return freshState();
+    return { ...freshState(), ...JSON.parse(raw, (_, v) => (typeof v === "string" && /^-?\d+n$/.test(v) ? BigInt(v.slice(0, -1)) : v)) };
+  } catch {
+    return freshState();
+  }
+};
+
+const save = (s: SimState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(s, (_, v) => (typeof v === "bigint" ? `${v}n` : v)));
+};
+
+export type SimBackend = AmmBackend & {
+  /** MockERC20.mint */
+  mint(to: Hex, amount: bigint): Promise<Hex>;
+  /** Drop all markets, positions and balances. */
+  reset(): void;
+};
+
+export function createSimBackend(): SimBackend {
+  let st = load();
+
+  const key = (marketId: number, user: Hex, outcome: number) => `${marketId}:${user.toLowerCase()}:${outcome}`;
+  const lower = (a: Hex) => a.toLowerCase() as Hex;
+
+  const market = (marketId: number) => {
+    const m = st.markets[marketId];
+    if (!m) throw new SimRevertError("Panic: array out-of-bounds (unknown market)");
+    return m;
+  };
+
+  const snapshot = (marketId: number) => {
+    const m = market(marketId);
+    return stateFromQ(m.meta, m.q);
+  };
+
+  type Emit = (e: DistributiveOmit<AmmEvent, "blockNumber" | "txHash" | "logIndex">) => void;
+
+  const watchers = new Set<(events: AmmEvent[]) => void>();
+
+  // Runs a state transition on a copy and only commits if it doesn't revert.
+  // Each tx is mined in its own block.
+  const tx = (label: string, account: Hex, fn: (s: SimState, emit: Emit) => void): Hex => {
+    const next: SimState = structuredClone(st);
+    next.nonce += 1;
+    const hash = keccak256(toHex(`sim:${next.nonce}:${label}:${account}`));
+    let logIndex = 0;
+    fn(next, (e) => next.events.push({ ...e, blockNumber: BigInt(next.nonce), txHash: hash, logIndex: logIndex++ } as AmmEvent));
+    next.receipts[hash] = next.nonce;
+    const emitted = next.events.slice(st.events.length);
+    st = next;
+    save(st);
+    // delivered after the write resolves, like a log arriving with the next poll
+    if (emitted.length > 0) for (const w of watchers) setTimeout(() => w(emitted), 0);
+    return hash;
+  };
+
+  const checkTrade = (meta: MarketMeta, outcome: number, steps: number) => {
+    if (meta.closed) throw new SimRevertError("MarketClosedErr");
+    if (outcome < 0 || outcome >= meta.n) throw new SimRevertError("InvalidOutcome");
+    if (steps === 0 || steps > MAX_STEPS) throw new SimRevertError("StepsOutOfRange");
+  };
+
+  const wrapMath = <T>(fn: () => T): T => {
+    try {
+      return fn();
+    } catch (e) {
+      if (e instanceof LsLmsrMathError) throw new SimRevertError(e.reason);
+      throw e;
+    }
+  };
+
+  return {
+    mode: "sim",
+    ammAddress: SIM_AMM_ADDRESS,
+
+    async collateralToken() {
+      return SIM_COLLATERAL_ADDRESS;
+    },
+
+    async state(marketId) {
+      return wrapMath(() => snapshot(marketId));
+    },
+
+    async quoteBuy(marketId, outcome, dQWad, steps) {
+      const r = wrapMath(() => quoteBuy(snapshot(marketId), outcome, dQWad, steps));
+      return [r.amountWad, r.pricesAfter] as const;
+    },
+
+    async quoteSell(marketId, outcome, dQWad, steps) {
+      const r = wrapMath(() => quoteSell(snapshot(marketId), outcome, dQWad, steps));
+      return [r.amountWad, r.pricesAfter] as const;
+    },
+
+    async userShares(marketId, user, outcome) {
+      return st.shares[key(marketId, user, outcome)] ?? 0n;
+    },
+
+    async balanceOf(user) {
+      return st.balances[lower(user)] ?? 0n;
+    },
+
+    async allowance(user) {
+      return st.allowances[lower(user)] ?? 0n;
+    },
+
+    async createMarket(account, { mech, n, b0Wad, alphaWad, bCapWad }: CreateMarketArgs) {
+      if (n < 2 || n > 5) throw new SimRevertError("InvalidN");
+      if (!MECHANISMS.some((m) => m.value === mech)) throw new SimRevertError("InvalidMechanism");
+      if (b0Wad === 0n) throw new SimRevertError("InvalidMechanism");
+      // LS-LMSR needs α > 0 to seed its liquidity, and a seed whose q_i / b = 1/(α·n) is
+      // already past exp()'s range could never be read; a cap below b0 would never let b grow
+      if (mech === Mechanism.LS_LMSR && (alphaWad === 0n || (WAD * WAD) / (alphaWad * BigInt(n)) > MAX_EXP_INPUT_WAD)) {
+        throw new SimRevertError("InvalidMechanism");
+      }
+      if (mech === Mechanism.LS_CAPPED && (bCapWad === undefined || bCapWad < b0Wad)) {
+        throw new SimRevertError("InvalidMechanism");
+      }
+      const marketId = st.markets.length;
+      const hash = tx("createMarket", account, (s, emit) => {
+        const meta: MarketMeta = {
+          mech, n, b0Wad, alphaWad, ...(mech === Mechanism.LS_CAPPED && { bCapWad }), collateral: 0n, closed: false,
+        };
+        s.markets.push({ meta, q: initialQ(meta) });
+        emit({ kind: "MarketCreated", marketId, mech, n, b0Wad, alphaWad });
+      });
+      return { marketId, hash };
+    },
+
+    async buy(account, marketId, outcome, dQWad, steps, maxCostWad) {
+      const m = market(marketId);
+      checkTrade(m.meta, outcome, steps);
+      const r = wrapMath(() => quoteBuy(snapshot(marketId), outcome, dQWad, steps));
+      if (r.amountWad > maxCostWad) throw new SimRevertError("SlippageExceeded");
+
+      return tx("buy", account, (s, emit) => {
+        const user = lower(account);
+        // MockERC20.transferFrom
+        const allowance = s.allowances[user] ?? 0n;
+        if (allowance < r.amountWad) throw new SimRevertError("allowance");
+        if (allowance !== MAX_UINT256) s.allowances[user] = allowance - r.amountWad;
+        if ((s.balances[user] ?? 0n) < r.amountWad) throw new SimRevertError("balance");
+        s.balances[user] = (s.balances[user] ?? 0n) - r.amountWad;
+
+        const sm = s.markets[marketId];
+        sm.q = r.qAfter;
+        sm.meta.collateral += r.amountWad;
+        const k = key(marketId, account, outcome);
+        s.shares[k] = (s.shares[k] ?? 0n) + dQWad;
+        emit({
+          kind: "Trade", marketId, trader: account, outcome, isBuy: true, dQWad, costWad: r.amountWad,
+          tAfterWad: r.qAfter.reduce((a, b) => a + b, 0n), bAfterWad: r.bAfter,
+        });
+      });
+    },
+
+    async sell(account, marketId, outcome, dQWad, steps, minPayoutWad) {
+      const m = market(marketId);
+      checkTrade(m.meta, outcome, steps);
+      const k = key(marketId, account, outcome);
+      if ((st.shares[k] ?? 0n) < dQWad) throw new SimRevertError("SellExceedsHoldings");
+      const r = wrapMath(() => quoteSell(snapshot(marketId), outcome, dQWad, steps));
+      if (r.amountWad < 0n || r.amountWad < minPayoutWad) throw new SimRevertError("SlippageExceeded");
+
+      return tx("sell", account, (s, emit) => {
+        const sm = s.markets[marketId];
+        if (sm.meta.collateral < r.amountWad) throw new SimRevertError("Panic: arithmetic underflow");
+        sm.q = r.qAfter;
+        sm.meta.collateral -= r.amountWad;
+        const user = lower(account);
+        s.balances[user] = (s.balances[user] ?? 0n) + r.amountWad;
+        s.shares[k] -= dQWad;
+        emit({
+          kind: "Trade", marketId, trader: account, outcome, isBuy: false, dQWad, costWad: r.amountWad,
+          tAfterWad: r.qAfter.reduce((a, b) => a + b, 0n), bAfterWad: r.bAfter,
+        });
+      });
+    },
+
+    async approve(account, amount) {
+      return tx("approve", account, (s) => {
+        s.allowances[lower(account)] = amount;
+      });
+    },
+
+    async blockNumber() {
+      return BigInt(st.nonce);
+    },
+
+    async getEvents(fromBlock, toBlock) {
+      return st.events.filter((e) => e.blockNumber >= fromBlock && e.blockNumber <= toBlock);
+    },
+
+    watchEvents(onEvents) {
+      watchers.add(onEvents);
+      return () => {
+        watchers.delete(onEvents);
+      };
+    },
+
+    async waitForTx(hash) {
+      // simulated txs are final as soon as they return; reverts never get a hash
+      const block = st.receipts[hash];
+      if (block === undefined) throw new TxDroppedError(hash);
+      return {
+        hash,
+        status: "success",
+        blockNumber: BigInt(block),
+        gasUsed: 0n,
+        effectiveGasPrice: 0n,
+        events: st.events.filter((e) => e.txHash === hash),
+      };
+    },
+
+    async closeMarket(account, marketId) {
+      market(marketId);
+      return tx("closeMarket", account, (s, emit) => {
+        s.markets[marketId].meta.closed = true;
+        emit({ kind: "MarketClosed", marketId });
+      });
+    },
+
+    async mint(to, amount) {
+      return tx("mint", to, (s) => {
+        s.balances[lower(to)] = (s.balances[lower(to)] ?? 0n) + amount;
+      });
+    },
+
+    reset() {
+      st = freshState();
+      save(st);
+    },
+  };
+}
+
+export const simBackend = createSimBackend();
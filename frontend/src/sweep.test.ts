@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { Mechanism } from "./lsLmsrMath";
+import { MAX_AXIS_POINTS, axisValues, evaluatePoint, runSweep } from "./sweep";
+import type { SweepPoint } from "./sweep";
+
+const base: SweepPoint = { mech: Mechanism.LS_PROXY, n: 3, b0: 5, alpha: 0.1, size: 1, steps: 8 };
+
+describe("axisValues", () => {
+  it("spaces the points evenly, ends included", () => {
+    expect(axisValues("b0", { from: 1, to: 3, count: 5 })).toEqual([1, 1.5, 2, 2.5, 3]);
+  });
+
+  it.each([
+    [1000, MAX_AXIS_POINTS],
+    [0, 1],
+    [Number.NaN, 1],
+    [2.9, 2],
+  ])("clamps count %s to %s points", (count, length) => {
+    expect(axisValues("size", { from: 1, to: 2, count })).toHaveLength(length);
+  });
+
+  it("rounds n into [2, 5] and drops duplicates", () => {
+    expect(axisValues("n", { from: 1, to: 7, count: 7 })).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe("evaluatePoint", () => {
+  it("LMSR: a round trip at fixed b loses nothing, and the bound is b·ln n", () => {
+    const { metrics } = evaluatePoint({ ...base, mech: Mechanism.LMSR });
+    expect(metrics).not.toBeNull();
+    expect(metrics!.cost).toBeGreaterThan(1 / 3);
+    expect(metrics!.priceMove).toBeGreaterThan(0);
+    expect(metrics!.roundTripLoss).toBeCloseTo(0, 15);
+    expect(metrics!.worstCaseLoss).toBeCloseTo(5 * Math.log(3), 12);
+  });
+
+  it("LS-PROXY: the bound grows with the reference buy", () => {
+    const small = evaluatePoint(base).metrics!;
+    const large = evaluatePoint({ ...base, size: 10 }).metrics!;
+    expect(large.worstCaseLoss).toBeGreaterThan(small.worstCaseLoss);
+    expect(large.cost).toBeGreaterThan(small.cost);
+  });
+
+  it.each([
+    [{ b0: 0 }, "b0 must be > 0"],
+    [{ mech: Mechanism.LMSR, b0: 1, size: 200 }, "ExpInputTooLarge"],
+  ])("reports %j as a failed cell", (over, error) => {
+    expect(evaluatePoint({ ...base, ...over })).toMatchObject({ metrics: null, error });
+  });
+});
+
+describe("runSweep", () => {
+  it("lays cells out as cells[y][x]", () => {
+    const r = runSweep(base, "b0", { from: 1, to: 10, count: 3 }, "n", { from: 2, to: 3, count: 2 });
+    expect(r.xs).toEqual([1, 5.5, 10]);
+    expect(r.ys).toEqual([2, 3]);
+    expect(r.cells).toHaveLength(2);
+    expect(r.cells[1][2].point).toMatchObject({ b0: 10, n: 3, alpha: 0.1, size: 1 });
+  });
+});
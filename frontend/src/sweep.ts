@@ -0,0 +1,83 @@
+// Parameter sweeps over (b0, α, n, trade size) on the local math engine, for the
+// heatmap explorer. Every cell starts from a freshly created market (q = 0).
+import { Mechanism, WAD, quoteBuy, quoteSell, stateFromQ } from "./lsLmsrMath";
+import type { MarketMeta } from "./lsLmsrMath";
+import { worstCaseLossBound } from "./settlement";
+
+export type SweepParam = "b0" | "alpha" | "n" | "size";
+export type SweepRange = { from: number; to: number; count: number };
+export type SweepPoint = { mech: Mechanism; n: number; b0: number; alpha: number; size: number; steps: number };
+
+export const SWEEP_METRICS = {
+  cost: "Cost of reference buy",
+  priceMove: "Post-trade Δp of traded outcome",
+  roundTripLoss: "Round-trip loss (buy then sell)",
+  worstCaseLoss: "Worst-case MM loss bound",
+} as const;
+export type SweepMetric = keyof typeof SWEEP_METRICS;
+
+export type SweepCell = { point: SweepPoint; metrics: Record<SweepMetric, number> | null; error?: string };
+
+const toWadF = (x: number) => BigInt(Math.round(x * 1e6)) * (WAD / 1_000_000n);
+const fromWadF = (x: bigint) => Number(x) / 1e18;
+
+/** Points per axis; a sweep runs synchronously, so the grid is at most 16 × 16 cells. */
+export const MAX_AXIS_POINTS = 16;
+
+/**
+ * Evenly spaced values, clamped to 1…MAX_AXIS_POINTS points; n is rounded to an integer
+ * in [2, 5] and de-duplicated.
+ */
+export function axisValues(param: SweepParam, r: SweepRange): number[] {
+  const count = Number.isFinite(r.count) ? Math.min(MAX_AXIS_POINTS, Math.max(1, Math.floor(r.count))) : 1;
+  const xs = Array.from({ length: count }, (_, i) => (count === 1 ? r.from : r.from + ((r.to - r.from) * i) / (count - 1)));
+  if (param !== "n") return xs;
+  return [...new Set(xs.map((x) => Math.min(5, Math.max(2, Math.round(x)))))];
+}
+
+/** Buy `size` of outcome 0 in a fresh market, then sell it straight back. */
+export function evaluatePoint(p: SweepPoint): SweepCell {
+  const meta: MarketMeta = {
+    mech: p.mech,
+    n: p.n,
+    b0Wad: toWadF(p.b0),
+    alphaWad: p.mech === Mechanism.LMSR ? 0n : toWadF(p.alpha),
+    collateral: 0n,
+    closed: false,
+  };
+  try {
+    if (meta.b0Wad === 0n) throw new Error("b0 must be > 0");
+    const s0 = stateFromQ(meta, Array(p.n).fill(0n));
+    const dQ = toWadF(p.size);
+    const buy = quoteBuy(s0, 0, dQ, p.steps);
+    const s1 = stateFromQ({ ...meta, collateral: buy.amountWad }, buy.qAfter);
+    const sell = quoteSell(s1, 0, dQ, p.steps);
+    return {
+      point: p,
+      metrics: {
+        cost: fromWadF(buy.amountWad),
+        priceMove: fromWadF(buy.pricesAfter[0] - s0.prices[0]),
+        roundTripLoss: fromWadF(buy.amountWad - sell.amountWad),
+        worstCaseLoss: fromWadF(worstCaseLossBound(s1)),
+      },
+    };
+  } catch (e) {
+    return { point: p, metrics: null, error: (e as { reason?: string }).reason ?? (e as Error).message };
+  }
+}
+
+export type SweepResult = { xParam: SweepParam; yParam: SweepParam; xs: number[]; ys: number[]; cells: SweepCell[][] };
+
+/** cells[y][x]; `base` supplies the two parameters not on an axis. */
+export function runSweep(
+  base: SweepPoint,
+  xParam: SweepParam,
+  xRange: SweepRange,
+  yParam: SweepParam,
+  yRange: SweepRange,
+): SweepResult {
+  const xs = axisValues(xParam, xRange);
+  const ys = axisValues(yParam, yRange);
+  const cells = ys.map((y) => xs.map((x) => evaluatePoint({ ...base, [yParam]: y, [xParam]: x })));
+  return { xParam, yParam, xs, ys, cells };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { LsLmsrMathError, MAX_EXP_INPUT_WAD, Mechanism, WAD, quoteBuy, quoteSell, stateFromQ } from "./lsLmsrMath";
+import { SIZE_TICK, fixedBHeadroom, maxBuyable, sizeBuyForBudget, sizeForTargetPrice, sizeSellForPayout } from "./tradeSizing";
+
+const market = (mech: Mechanism, q: bigint[], b0Wad = 5n * WAD, alphaWad = 0n) =>
+  stateFromQ({ mech, n: q.length, b0Wad, alphaWad, collateral: 0n, closed: false }, q);
+
+describe("sizeBuyForBudget", () => {
+  const s = market(Mechanism.LS_PROXY, [3n * WAD, WAD, 0n], 5n * WAD, WAD / 10n);
+
+  it("buys the most ticks the budget covers", () => {
+    const r = sizeBuyForBudget(s, 1, 2n * WAD, 8);
+    expect(r.amountWad).toBeLessThanOrEqual(2n * WAD);
+    expect(quoteBuy(s, 1, r.dQWad + SIZE_TICK, 8).amountWad).toBeGreaterThan(2n * WAD);
+    expect(r.dQWad % SIZE_TICK).toBe(0n);
+    expect(r.capped).toBe(false);
+  });
+
+  it("returns nothing for a budget below one tick", () => {
+    expect(sizeBuyForBudget(s, 0, 1n, 8)).toEqual({ dQWad: 0n, amountWad: 0n, avgPriceWad: 0n, pricesAfter: [], capped: false });
+  });
+});
+
+describe("sizeSellForPayout", () => {
+  const s = market(Mechanism.LMSR, [10n * WAD, 2n * WAD]);
+
+  it("sells the fewest ticks that pay the target", () => {
+    const r = sizeSellForPayout(s, 0, 3n * WAD, 1, 10n * WAD);
+    expect(r.amountWad).toBeGreaterThanOrEqual(3n * WAD);
+    expect(quoteSell(s, 0, r.dQWad - SIZE_TICK, 1).amountWad).toBeLessThan(3n * WAD);
+    expect(r.capped).toBe(false);
+  });
+
+  it("caps at the seller's holdings", () => {
+    const r = sizeSellForPayout(s, 0, 3n * WAD, 1, WAD);
+    expect(r.dQWad).toBe(WAD);
+    expect(r.amountWad).toBe(quoteSell(s, 0, WAD, 1).amountWad);
+    expect(r.capped).toBe(true);
+  });
+
+  it("reports a seller without shares as capped", () => {
+    expect(sizeSellForPayout(s, 0, WAD, 1, 0n)).toMatchObject({ dQWad: 0n, capped: true });
+  });
+});
+
+describe("sizeForTargetPrice", () => {
+  it("LMSR closed form agrees with the bisection on a fixed-b LS-PROXY market", () => {
+    // α = 0 keeps b at b0, so both mechanisms price alike but only LS-PROXY bisects
+    const q = [3n * WAD, WAD, 0n];
+    for (const [outcome, target] of [[0, 7n * WAD / 10n], [1, WAD / 10n], [2, WAD / 2n]] as const) {
+      const exact = sizeForTargetPrice(market(Mechanism.LMSR, q), outcome, target, 1);
+      const bisected = sizeForTargetPrice(market(Mechanism.LS_PROXY, q), outcome, target, 1);
+      expect(exact.side).toBe(bisected.side);
+      const gap = exact.dQWad - bisected.dQWad;
+      expect(gap < 0n ? -gap : gap).toBeLessThanOrEqual(SIZE_TICK);
+    }
+  });
+
+  it("LMSR lands on the target to within one tick's price move", () => {
+    const r = sizeForTargetPrice(market(Mechanism.LMSR, [3n * WAD, WAD, 0n]), 2, 6n * WAD / 10n, 1);
+    expect(r.side).toBe("buy");
+    const miss = r.pricesAfter[2] - 6n * WAD / 10n;
+    expect(miss < 0n ? -miss : miss).toBeLessThan(10n ** 12n);
+  });
+
+  // b = 1, q = [130, 0]: the rounded prices are [1 − 1 wei, 0]
+  const extreme = market(Mechanism.LMSR, [130n * WAD, 0n], WAD);
+
+  it("buys up from p = 0", () => {
+    expect(extreme.prices[1]).toBe(0n);
+    const r = sizeForTargetPrice(extreme, 1, WAD / 2n, 1);
+    expect(r).toMatchObject({ side: "buy", dQWad: 130n * WAD, pricesAfter: [WAD / 2n, WAD / 2n] });
+  });
+
+  it("sells down from p → 1", () => {
+    const r = sizeForTargetPrice(extreme, 0, WAD / 2n, 1);
+    expect(r).toMatchObject({ side: "sell", dQWad: 130n * WAD, pricesAfter: [WAD / 2n, WAD / 2n], capped: false });
+  });
+
+  it("bisects up from p = 0 on LS-PROXY", () => {
+    const s = market(Mechanism.LS_PROXY, [130n * WAD, 0n], WAD, WAD / 100n);
+    expect(s.prices[1]).toBe(0n);
+    const r = sizeForTargetPrice(s, 1, WAD / 2n, 4);
+    expect(r.pricesAfter[1]).toBeGreaterThanOrEqual(WAD / 2n);
+    expect(quoteBuy(s, 1, r.dQWad - SIZE_TICK, 4).pricesAfter[1]).toBeLessThan(WAD / 2n);
+  });
+
+  it("caps a sell at the seller's holdings", () => {
+    const s = market(Mechanism.LMSR, [5n * WAD, 0n]);
+    const r = sizeForTargetPrice(s, 0, WAD / 10n, 1, WAD);
+    expect(r).toMatchObject({ side: "sell", dQWad: WAD, capped: true });
+    expect(r.pricesAfter[0]).toBeGreaterThan(WAD / 10n);
+  });
+
+  it("caps a sell at q_i", () => {
+    const s = market(Mechanism.LMSR, [2n * WAD, 0n, 0n]);
+    expect(sizeForTargetPrice(s, 0, WAD / 100n, 1)).toMatchObject({ side: "sell", dQWad: 2n * WAD, capped: true });
+  });
+
+  it("rejects LS-PROXY buys past the α price ceiling", () => {
+    // e / (e + 2) ≈ 0.5761 at α = 1, n = 3
+    const s = market(Mechanism.LS_PROXY, [0n, 0n, 0n], WAD, WAD);
+    expect(() => sizeForTargetPrice(s, 0, 58n * WAD / 100n, 8)).toThrow(/unreachable under this α/);
+    expect(sizeForTargetPrice(s, 0, 57n * WAD / 100n, 8).pricesAfter[0]).toBeGreaterThanOrEqual(57n * WAD / 100n);
+  });
+
+  it.each([0n, WAD])("rejects target %s", (target) => {
+    expect(() => sizeForTargetPrice(extreme, 0, target, 1)).toThrow(/strictly between 0 and 1/);
+  });
+});
+
+describe("buy range", () => {
+  const overflows = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (e) {
+      return e instanceof LsLmsrMathError && e.reason === "ExpInputTooLarge";
+    }
+    return false;
+  };
+
+  it("LMSR: the headroom is one tick inside the exact limit", () => {
+    const s = market(Mechanism.LMSR, [10n * WAD, 0n], WAD);
+    expect(fixedBHeadroom(s, 0)).toBe(MAX_EXP_INPUT_WAD - 10n * WAD - SIZE_TICK);
+    expect(maxBuyable(s, 0, 1)).toBe(MAX_EXP_INPUT_WAD - 10n * WAD);
+    expect(overflows(() => quoteBuy(s, 0, maxBuyable(s, 0, 1) + SIZE_TICK, 1))).toBe(true);
+  });
+
+  it("LS-PROXY: the fixed-b headroom is a lower bound on maxBuyable", () => {
+    const s = market(Mechanism.LS_PROXY, [WAD, 0n, 0n], WAD, WAD / 1000n);
+    const max = maxBuyable(s, 0, 1);
+    expect(fixedBHeadroom(s, 0)).toBeLessThanOrEqual(max);
+    expect(overflows(() => quoteBuy(s, 0, max, 1))).toBe(false);
+    expect(overflows(() => quoteBuy(s, 0, max + SIZE_TICK, 1))).toBe(true);
+  });
+
+  it("headroom is 0 once q_i is past the limit", () => {
+    expect(fixedBHeadroom(market(Mechanism.LMSR, [133n * WAD, 0n], WAD), 0)).toBe(0n);
+  });
+});
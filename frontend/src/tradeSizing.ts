@@ -0,0 +1,222 @@
+// Inverse quotes: solve for the trade size (ΔQ) that hits a cost or payout target,
+// by bisection over the local quoteBuy / quoteSell (bit-exact with the contract).
+// Sizes are multiples of SIZE_TICK so they survive the UI's 6-decimal toWad.
+import { MAX_EXP_INPUT_WAD, Mechanism, WAD, expWad, lnWad, logSumExp, quoteBuy, quoteSell } from "./lsLmsrMath";
+import type { MarketState, QuoteResult } from "./lsLmsrMath";
+
+/** ΔQ resolution of the solvers: 1e-6 shares. */
+export const SIZE_TICK = 10n ** 12n;
+
+export type SizedQuote = {
+  dQWad: bigint;
+  /** cost (buy) or payout (sell) of dQWad */
+  amountWad: bigint;
+  /** amount / ΔQ, 0 when ΔQ is 0 */
+  avgPriceWad: bigint;
+  pricesAfter: bigint[];
+  /** the target was out of reach: the seller's holdings or q_i ran out */
+  capped: boolean;
+};
+
+const sized = (dQWad: bigint, r: QuoteResult | null, capped = false): SizedQuote => ({
+  dQWad,
+  amountWad: r?.amountWad ?? 0n,
+  avgPriceWad: r && dQWad > 0n ? (r.amountWad * WAD) / dQWad : 0n,
+  pricesAfter: r?.pricesAfter ?? [],
+  capped,
+});
+
+// null when the AMM would reject the size (e.g. ExpInputTooLarge)
+const tryQuote = (fn: () => QuoteResult) => {
+  try {
+    return fn();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Largest ΔQ (in ticks) whose quoteBuy cost is ≤ budget. Cost rises with ΔQ, so the
+ * upper bound is found by doubling and the answer by bisection.
+ */
+export function sizeBuyForBudget(s: MarketState, outcome: number, budgetWad: bigint, steps: number): SizedQuote {
+  const fits = (ticks: bigint) => {
+    const r = tryQuote(() => quoteBuy(s, outcome, ticks * SIZE_TICK, steps));
+    return r !== null && r.amountWad <= budgetWad ? r : null;
+  };
+
+  let lo = 0n;
+  let hi = 1n;
+  while (fits(hi)) {
+    lo = hi;
+    hi *= 2n;
+    if (hi > 2n ** 128n) break;
+  }
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+  return sized(lo * SIZE_TICK, lo > 0n ? fits(lo) : null);
+}
+
+/**
+ * Smallest ΔQ (in ticks) whose quoteSell payout is ≥ target, never more than `maxSharesWad`
+ * (the seller's userShares). If even the full holding pays less, returns that with `capped`.
+ */
+export function sizeSellForPayout(
+  s: MarketState,
+  outcome: number,
+  targetWad: bigint,
+  steps: number,
+  maxSharesWad: bigint,
+): SizedQuote {
+  const maxTicks = maxSharesWad / SIZE_TICK;
+  const payout = (ticks: bigint) => tryQuote(() => quoteSell(s, outcome, ticks * SIZE_TICK, steps));
+  const reaches = (ticks: bigint) => {
+    const r = payout(ticks);
+    return r !== null && r.amountWad >= targetWad;
+  };
+
+  if (maxTicks === 0n) return sized(0n, null, targetWad > 0n);
+  if (!reaches(maxTicks)) return sized(maxTicks * SIZE_TICK, payout(maxTicks), true);
+
+  let lo = 0n;
+  let hi = maxTicks;
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (reaches(mid)) hi = mid;
+    else lo = mid;
+  }
+  return sized(hi * SIZE_TICK, payout(hi));
+}
+
+export type PriceTargetQuote = SizedQuote & { side: "buy" | "sell" };
+
+/** Signed ln(p / (1 − p)) for 0 < p < 1; the odds ratio is kept ≥ 1 because lnWad is unsigned. */
+const logitWad = (pWad: bigint) =>
+  2n * pWad >= WAD ? lnWad((pWad * WAD) / (WAD - pWad)) : -lnWad(((WAD - pWad) * WAD) / pWad);
+
+/**
+ * Fixed-b ΔQ that moves p_i to target, in WAD and signed (negative = sell). With
+ * L = ln Σ_{j≠i} exp(q_j/b), logit p_i = q_i/b − L, so q_i has to become b·(logit p* + L).
+ * Worked from q rather than from the rounded p_i, which is 0 or 1e18 at the extremes.
+ * Exact for LMSR, a first guess for the b(T) models; throws where exp(q_j/b) overflows.
+ */
+function lmsrDeltaForPrice(s: MarketState, outcome: number, targetWad: bigint): bigint {
+  const others = s.q.filter((_, j) => j !== outcome);
+  return (s.bEff * (logitWad(targetWad) + logSumExp(others, s.bEff))) / WAD - s.q[outcome];
+}
+
+/**
+ * LS-PROXY's price ceiling e^{1/α} / (e^{1/α} + n − 1): with b = b0 + α·T, q_i/b stays below
+ * 1/α however much of i is bought, and every other exp(q_j/b) is ≥ 1. Null when there is
+ * none inside exp's range (α = 0, or 1/α past MAX_EXP_INPUT_WAD).
+ */
+function lsProxyPriceCeiling(n: number, alphaWad: bigint): bigint | null {
+  if (alphaWad === 0n || (WAD * WAD) / alphaWad > MAX_EXP_INPUT_WAD) return null;
+  const e = expWad((WAD * WAD) / alphaWad);
+  return (e * WAD) / (e + BigInt(n - 1) * WAD);
+}
+
+/**
+ * ΔQ (in ticks) that moves p_i as close as possible to `targetWad`: closed form for LMSR;
+ * for LS-PROXY, where b moves with T, the smallest ΔQ whose post-trade p_i reaches the
+ * target, found by bisection. Sells are capped at q_i and at `maxSharesWad` (the seller's
+ * userShares, when known), as in sizeSellForPayout.
+ */
+export function sizeForTargetPrice(
+  s: MarketState,
+  outcome: number,
+  targetWad: bigint,
+  steps: number,
+  maxSharesWad?: bigint,
+): PriceTargetQuote {
+  if (targetWad <= 0n || targetWad >= WAD) throw new Error("Target price must be strictly between 0 and 1");
+  const p = s.prices[outcome];
+  const side = targetWad >= p ? "buy" : "sell";
+  if (side === "buy" && s.meta.mech === Mechanism.LS_PROXY) {
+    const ceiling = lsProxyPriceCeiling(s.meta.n, s.meta.alphaWad);
+    if (ceiling !== null && targetWad >= ceiling) {
+      const max = (Number(ceiling) / 1e18).toFixed(4);
+      throw new Error(`Target price is unreachable under this α: LS-PROXY keeps p below ${max}`);
+    }
+  }
+  const quote = (ticks: bigint) =>
+    tryQuote(() => (side === "buy" ? quoteBuy : quoteSell)(s, outcome, ticks * SIZE_TICK, steps));
+  const sellable = maxSharesWad !== undefined && maxSharesWad < s.q[outcome] ? maxSharesWad : s.q[outcome];
+  const maxTicks = side === "sell" ? sellable / SIZE_TICK : 2n ** 128n;
+
+  let guess: bigint | null;
+  try {
+    // distance toward the target; ≤ 0 when p_i was rounded onto the wrong side of it
+    guess = (side === "buy" ? 1n : -1n) * lmsrDeltaForPrice(s, outcome, targetWad);
+  } catch {
+    guess = null;
+  }
+  let ticks: bigint;
+  if (s.meta.mech === Mechanism.LMSR) {
+    if (guess === null) throw new Error("Target price is out of the AMM's tradable range");
+    ticks = guess > 0n ? (guess + SIZE_TICK / 2n) / SIZE_TICK : 0n;
+  } else {
+    // unquotable sizes (exp overflow) count as past the target
+    const reached = (t: bigint) => {
+      const r = quote(t);
+      return r === null || (side === "buy" ? r.pricesAfter[outcome] >= targetWad : r.pricesAfter[outcome] <= targetWad);
+    };
+    let lo = 0n;
+    let hi = guess !== null && guess > 0n ? guess / SIZE_TICK + 1n : 1n;
+    while (hi < maxTicks && !reached(hi)) {
+      lo = hi;
+      hi *= 2n;
+    }
+    if (hi > maxTicks) hi = maxTicks;
+    while (hi - lo > 1n) {
+      const mid = (lo + hi) / 2n;
+      if (reached(mid)) hi = mid;
+      else lo = mid;
+    }
+    ticks = hi;
+  }
+
+  if (ticks > maxTicks) ticks = maxTicks;
+  const r = quote(ticks);
+  if (r === null) throw new Error("Target price is out of the AMM's tradable range");
+  const capped = side === "sell" && ticks === maxTicks && r.pricesAfter[outcome] > targetWad;
+  return { ...sized(ticks * SIZE_TICK, r, capped), side };
+}
+
+/**
+ * Fixed-b buy limit q_i + ΔQ ≤ 133·b(T), one tick inside. Exact for LMSR and a lower bound
+ * for the b(T) models, where b only grows on a buy; costs no quotes.
+ */
+export function fixedBHeadroom(s: MarketState, outcome: number): bigint {
+  const ticks = ((MAX_EXP_INPUT_WAD * s.bEff) / WAD - s.q[outcome]) / SIZE_TICK - 1n;
+  return ticks > 0n ? ticks * SIZE_TICK : 0n;
+}
+
+/**
+ * Largest ΔQ of `outcome` that can still be bought before some q_j / b passes
+ * MAX_EXP_INPUT_WAD and the AMM reverts with ExpInputTooLarge. Quotability only shrinks
+ * as ΔQ grows; the search gallops up from fixedBHeadroom, then bisects. Each probe is a
+ * full stepped quote, so call it for one outcome at a time, and only when needed.
+ */
+export function maxBuyable(s: MarketState, outcome: number, steps: number): bigint {
+  const ok = (ticks: bigint) => tryQuote(() => quoteBuy(s, outcome, ticks * SIZE_TICK, steps)) !== null;
+
+  const fixedB = fixedBHeadroom(s, outcome) / SIZE_TICK;
+  let lo = fixedB > 0n && ok(fixedB) ? fixedB : 0n;
+  let step = 1n;
+  while (ok(lo + step)) {
+    lo += step;
+    step *= 2n;
+    if (step > 2n ** 128n) break;
+  }
+  let hi = lo + step;
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (ok(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo * SIZE_TICK;
+}
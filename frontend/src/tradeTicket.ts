@@ -0,0 +1,79 @@
+// Multi-leg trade tickets. The AMM has no basket function, so a ticket is a list of
+// single-outcome buys/sells sent one after another. Quotes chain each leg's post-trade
+// q into the next leg's state, so leg k is priced as the AMM will see it after legs 0…k-1.
+import { LsLmsrMathError, quoteLocal, stateFromQ } from "./lsLmsrMath";
+import type { MarketState } from "./lsLmsrMath";
+
+export type TicketLeg = {
+  side: "buy" | "sell";
+  outcome: number;
+  dQWad: bigint;
+  /** per-leg slippage, percent (0.5 = 0.5%) */
+  slippagePct: number;
+};
+
+export type LegQuote = {
+  /** cost (buy) or payout (sell) */
+  amountWad: bigint;
+  /** maxCost (buy) or minPayout (sell) sent with the leg */
+  boundWad: bigint;
+  pricesAfter: bigint[];
+  stateAfter: MarketState;
+};
+
+export type TicketQuote = {
+  legs: LegQuote[];
+  /** Σ buy costs − Σ sell payouts; negative means the ticket pays out */
+  netCostWad: bigint;
+  /** worst case within every leg's slippage */
+  maxNetCostWad: bigint;
+  finalPrices: readonly bigint[];
+};
+
+/** Thrown when a leg can't be quoted; `leg` is its index in the ticket. */
+export class TicketLegError extends Error {
+  readonly leg: number;
+
+  constructor(leg: number, cause: unknown) {
+    super(`Leg ${leg + 1}: ${cause instanceof LsLmsrMathError ? cause.reason : (cause as Error).message}`, { cause });
+    this.name = "TicketLegError";
+    this.leg = leg;
+  }
+}
+
+/** maxCost for a buy (amount + slippage), minPayout for a sell (amount − slippage). */
+export function legBound(side: "buy" | "sell", amountWad: bigint, slippagePct: number): bigint {
+  const bps = BigInt(Math.round(slippagePct * 100));
+  return side === "buy" ? (amountWad * (10_000n + bps)) / 10_000n : (amountWad * (10_000n - bps)) / 10_000n;
+}
+
+/** Quotes the legs in order on a `state()` snapshot; throws TicketLegError at the first bad leg. */
+export function quoteTicket(s: MarketState, legs: readonly TicketLeg[], steps: number): TicketQuote {
+  if (legs.length === 0) throw new Error("Ticket has no legs");
+  let cur = s;
+  const quoted = legs.map((leg, i): LegQuote => {
+    if (leg.dQWad <= 0n) throw new TicketLegError(i, new Error("ΔQ must be > 0"));
+    if (leg.slippagePct < 0 || leg.slippagePct >= 100) throw new TicketLegError(i, new Error("Slippage must be in [0, 100)"));
+    let r;
+    try {
+      r = quoteLocal(cur, leg.side, leg.outcome, leg.dQWad, steps);
+    } catch (e) {
+      throw new TicketLegError(i, e);
+    }
+    cur = stateFromQ(cur.meta, r.qAfter);
+    return {
+      amountWad: r.amountWad,
+      boundWad: legBound(leg.side, r.amountWad, leg.slippagePct),
+      pricesAfter: r.pricesAfter,
+      stateAfter: cur,
+    };
+  });
+  const signed = (f: (q: LegQuote) => bigint) =>
+    quoted.reduce((acc, q, i) => (legs[i].side === "buy" ? acc + f(q) : acc - f(q)), 0n);
+  return {
+    legs: quoted,
+    netCostWad: signed((q) => q.amountWad),
+    maxNetCostWad: signed((q) => q.boundWad),
+    finalPrices: cur.prices,
+  };
+}
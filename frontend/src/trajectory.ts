@@ -0,0 +1,68 @@
+// Per-step series of a Scenario Runner run for charting: any field of the recorded
+// `state()` snapshots, plus cash flow from the run's trades. One value per runner slot.
+import type { RunExport } from "./runExport";
+
+const fromWadF = (x: bigint) => Number(x) / 1e18;
+
+export type TrajectoryMetric = "price" | "q" | "T" | "bEff" | "collateral" | "stepCost" | "cumCost" | "impact";
+
+export const TRAJECTORY_METRICS: { value: TrajectoryMetric; label: string; perOutcome: boolean }[] = [
+  { value: "price", label: "Price p_i", perOutcome: true },
+  { value: "q", label: "Outstanding q_i", perOutcome: true },
+  { value: "T", label: "T (Σq)", perOutcome: false },
+  { value: "bEff", label: "b(T)", perOutcome: false },
+  { value: "collateral", label: "Collateral held", perOutcome: false },
+  { value: "stepCost", label: "Cost per step", perOutcome: false },
+  { value: "cumCost", label: "Cumulative cost", perOutcome: false },
+  { value: "impact", label: "Δp_i per step", perOutcome: true },
+];
+
+export type TrajectoryPoint = {
+  step: number;
+  /** by slot; missing where the slot has no snapshot at this step */
+  values: (number | undefined)[];
+};
+
+/**
+ * Series of `metric` at every snapshotted step. Costs are cash into the AMM (buy cost,
+ * minus sell payout), from the Trade event when known, else the quote; "per step" sums
+ * the trades since the slot's previous snapshot, so steps with `snapshot: false` still count.
+ * Impact is p_i minus p_i at the previous snapshot.
+ */
+export function trajectory(run: RunExport, metric: TrajectoryMetric, outcome: number): TrajectoryPoint[] {
+  const cashAt = new Map<string, number>();
+  for (const t of run.trades) {
+    const amount = t.actualWad ?? t.quotedWad ?? 0n;
+    const key = `${t.slot}:${t.step}`;
+    cashAt.set(key, (cashAt.get(key) ?? 0) + fromWadF(t.kind === "buy" ? amount : -amount));
+  }
+
+  const bySlot = new Map<number, { step: number; price?: number }>();
+  const cum = new Map<number, number>();
+  const points = new Map<number, TrajectoryPoint>();
+  const snapshots = [...run.snapshots].sort((a, b) => a.step - b.step || a.slot - b.slot);
+  for (const { step, slot, state } of snapshots) {
+    const prev = bySlot.get(slot);
+    let stepCash = 0;
+    for (let k = (prev?.step ?? -1) + 1; k <= step; k++) stepCash += cashAt.get(`${slot}:${k}`) ?? 0;
+    cum.set(slot, (cum.get(slot) ?? 0) + stepCash);
+    const price = state.prices[outcome] === undefined ? undefined : fromWadF(state.prices[outcome]);
+    bySlot.set(slot, { step, price });
+
+    let v: number | undefined;
+    switch (metric) {
+      case "price": v = price; break;
+      case "q": v = state.q[outcome] === undefined ? undefined : fromWadF(state.q[outcome]); break;
+      case "T": v = fromWadF(state.T); break;
+      case "bEff": v = fromWadF(state.bEff); break;
+      case "collateral": v = fromWadF(state.meta.collateral); break;
+      case "stepCost": v = stepCash; break;
+      case "cumCost": v = cum.get(slot); break;
+      case "impact": v = price === undefined || prev?.price === undefined ? undefined : price - prev.price; break;
+    }
+    const pt = points.get(step) ?? { step, values: [] };
+    pt.values[slot] = v;
+    points.set(step, pt);
+  }
+  return [...points.values()];
+}
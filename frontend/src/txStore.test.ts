@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import type { AmmEvent, Hex, TxReceipt } from "./backend";
+import { WAD } from "./lsLmsrMath";
+import { createTxStore, settleRecord } from "./txStore";
+import type { TxSubmission } from "./txStore";
+
+const FROM: Hex = "0x0000000000000000000000000000000000000002";
+
+const trade = (marketId: number, costWad: bigint, txHash: Hex = "0xa1"): AmmEvent => ({
+  kind: "Trade", marketId, blockNumber: 7n, txHash, logIndex: 0, trader: FROM, outcome: 0, isBuy: true,
+  dQWad: WAD, costWad, tAfterWad: WAD, bAfterWad: 5n * WAD,
+});
+
+const receipt = (over: Partial<TxReceipt> = {}): TxReceipt => ({
+  hash: "0xa1", status: "success", blockNumber: 7n, gasUsed: 90_000n, effectiveGasPrice: 3n, events: [], ...over,
+});
+
+const buy: TxSubmission = { hash: "0xa1", kind: "buy", from: FROM, marketId: 1, outcome: 0, dQWad: WAD, quotedWad: WAD / 2n };
+
+describe("settleRecord", () => {
+  it("confirms a buy and charges slippage as actual − quoted", () => {
+    expect(settleRecord(buy, receipt({ events: [trade(1, 6n * WAD / 10n)] }))).toEqual({
+      status: "confirmed",
+      replacedBy: undefined,
+      blockNumber: 7n,
+      gasUsed: 90_000n,
+      effectiveGasPrice: 3n,
+      actualWad: 6n * WAD / 10n,
+      slippageWad: WAD / 10n,
+    });
+  });
+
+  it("charges a sell quoted − actual", () => {
+    const sell: TxSubmission = { ...buy, kind: "sell" };
+    expect(settleRecord(sell, receipt({ events: [trade(1, 4n * WAD / 10n)] })).slippageWad).toBe(WAD / 10n);
+  });
+
+  it("only reads the Trade of the submitted market", () => {
+    const r = settleRecord(buy, receipt({ events: [trade(2, WAD)] }));
+    expect(r.actualWad).toBeUndefined();
+    expect(r.slippageWad).toBeUndefined();
+  });
+
+  it("has no slippage without a quote", () => {
+    const r = settleRecord({ ...buy, quotedWad: undefined }, receipt({ events: [trade(1, WAD)] }));
+    expect(r).toMatchObject({ actualWad: WAD, slippageWad: undefined });
+  });
+
+  it("marks reverts", () => {
+    expect(settleRecord(buy, receipt({ status: "reverted" }))).toMatchObject({ status: "reverted", gasUsed: 90_000n });
+  });
+
+  it("marks a replaced tx and points at its replacement", () => {
+    const r = settleRecord(buy, receipt({ hash: "0xb2", replaced: "repriced", events: [trade(1, WAD / 2n, "0xb2")] }));
+    expect(r).toMatchObject({ status: "replaced", replacedBy: "0xb2", actualWad: WAD / 2n, slippageWad: 0n });
+  });
+});
+
+describe("createTxStore without IndexedDB", () => {
+  // node has no indexedDB, like a browser that refuses to open it
+  it("still waits for the tx, reporting the history failure", async () => {
+    const onError = vi.fn();
+    const store = createTxStore("test", undefined, onError);
+    const r = receipt();
+    await expect(store.track(buy, async () => r)).resolves.toBe(r);
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it("passes the tx's own failure through", async () => {
+    const store = createTxStore("test", undefined, () => {});
+    const dropped = new Error("not mined");
+    await expect(store.track(buy, async () => { throw dropped; })).rejects.toBe(dropped);
+  });
+});
@@ -0,0 +1,206 @@
+// Transaction history: every write the UI sends, from submission to its final state,
+// with receipt data and quoted vs actual cost. Kept in IndexedDB (one store, keyed by
+// network + hash) so the history is unbounded; bigints are stored natively.
+import { TxCancelledError, TxDroppedError, TxRevertedError } from "./backend";
+import type { Hex, TxReceipt } from "./backend";
+import { WAD } from "./lsLmsrMath";
+
+export type TxStatus = "pending" | "confirmed" | "reverted" | "replaced" | "dropped";
+export type TxKind = "buy" | "sell" | "create" | "close" | "approve" | "mint";
+
+/** What the sender knows when the wallet returns a hash. */
+export type TxSubmission = {
+  hash: Hex;
+  kind: TxKind;
+  from: Hex;
+  marketId?: number;
+  outcome?: number;
+  dQWad?: bigint;
+  /** quoted cost (buy) or payout (sell) */
+  quotedWad?: bigint;
+  /** maxCost (buy) or minPayout (sell) sent with the trade */
+  boundWad?: bigint;
+};
+
+export type TxRecord = TxSubmission & {
+  /** storage namespace: one history per network (and one for the simulator) */
+  network: string;
+  status: TxStatus;
+  submittedAt: number;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  effectiveGasPrice?: bigint;
+  /** cost / payout from the tx's Trade event */
+  actualWad?: bigint;
+  /** what the price move cost you vs the quote: actual − quoted on buys, quoted − actual on sells */
+  slippageWad?: bigint;
+  /** the tx that was mined instead of this one */
+  replacedBy?: Hex;
+  error?: string;
+};
+
+export type TxFilter = { status?: TxStatus; kind?: TxKind; marketId?: number };
+
+/** The pre-IndexedDB history entry. */
+export type LegacyTxItem = {
+  marketId: number;
+  side: "buy" | "sell" | "create" | "close";
+  hash: Hex;
+  outcome?: number;
+  qty?: number;
+  costOrPayout?: number;
+  ts: number;
+};
+
+// ---------- IndexedDB ----------
+const DB_NAME = "ls-lmsr";
+const STORE = "txs";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () =>
+  (dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: ["network", "hash"] });
+      store.createIndex("network", "network");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+const done = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const objectStore = async (mode: IDBTransactionMode) => (await openDb()).transaction(STORE, mode).objectStore(STORE);
+
+// ---------- Receipts → records ----------
+/** Final fields for a submitted tx from its receipt (also for reverts and cancellations, via their error's receipt). */
+export function settleRecord(sub: TxSubmission, r: TxReceipt): Partial<TxRecord> {
+  const trade = r.events.find((e) => e.kind === "Trade" && e.marketId === sub.marketId);
+  const actualWad = trade?.kind === "Trade" ? trade.costWad : undefined;
+  const slippageWad =
+    actualWad !== undefined && sub.quotedWad !== undefined
+      ? sub.kind === "buy" ? actualWad - sub.quotedWad : sub.quotedWad - actualWad
+      : undefined;
+  return {
+    status: r.hash !== sub.hash ? "replaced" : r.status === "success" ? "confirmed" : "reverted",
+    replacedBy: r.hash !== sub.hash ? r.hash : undefined,
+    blockNumber: r.blockNumber,
+    gasUsed: r.gasUsed,
+    effectiveGasPrice: r.effectiveGasPrice,
+    actualWad,
+    slippageWad,
+  };
+}
+
+/** Slippage paid as a fraction of the quote (0.001 = 0.1%), null when unknown. */
+export const slippageFraction = (t: TxRecord) =>
+  t.slippageWad !== undefined && t.quotedWad ? Number((t.slippageWad * WAD) / t.quotedWad) / 1e18 : null;
+
+export type TxStore = {
+  list(filter?: TxFilter): Promise<TxRecord[]>;
+  /**
+   * Records `sub` as pending, waits for it and stores the outcome. Resolves with the
+   * receipt; rethrows reverts and timeouts after recording them. A failed history write
+   * goes to `onError` instead: without IndexedDB this is a plain `wait`. Tracking a hash
+   * again (waiting on it after a timeout) keeps its submission time.
+   */
+  track(sub: TxSubmission, wait: (hash: Hex) => Promise<TxReceipt>): Promise<TxReceipt>;
+  /** One-off import of the old 20-entry localStorage history (confirmed trades only). */
+  importLegacy(items: readonly LegacyTxItem[]): Promise<void>;
+  /** Re-attaches to txs left pending by a reload. */
+  resume(wait: (hash: Hex) => Promise<TxReceipt>): Promise<void>;
+  clear(): Promise<void>;
+};
+
+export function createTxStore(network: string, onChange?: () => void, onError?: (e: Error) => void): TxStore {
+  const put = async (rec: TxRecord) => {
+    await done((await objectStore("readwrite")).put(rec));
+    onChange?.();
+  };
+  const get = async (hash: Hex) => done<TxRecord | undefined>((await objectStore("readonly")).get([network, hash]));
+  const patch = async (hash: Hex, fields: Partial<TxRecord>) => {
+    const rec = await get(hash);
+    if (rec) await put({ ...rec, ...fields });
+  };
+
+  // history is best-effort while a tx is in flight; its outcome must not depend on it
+  const record = (hash: Hex, fields: Partial<TxRecord>) => patch(hash, fields).catch((e: Error) => onError?.(e));
+
+  const list = async (filter: TxFilter = {}) => {
+    const all = await done<TxRecord[]>((await objectStore("readonly")).index("network").getAll(network));
+    return all
+      .filter(
+        (t) =>
+          (filter.status === undefined || t.status === filter.status) &&
+          (filter.kind === undefined || t.kind === filter.kind) &&
+          (filter.marketId === undefined || t.marketId === filter.marketId),
+      )
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  };
+
+  const settle = async (sub: TxSubmission, wait: (hash: Hex) => Promise<TxReceipt>) => {
+    try {
+      const r = await wait(sub.hash);
+      await record(sub.hash, settleRecord(sub, r));
+      return r;
+    } catch (e) {
+      if (e instanceof TxRevertedError || e instanceof TxCancelledError) await record(sub.hash, { ...settleRecord(sub, e.receipt), error: e.message });
+      else if (e instanceof TxDroppedError) await record(sub.hash, { status: "dropped", error: e.message });
+      // RPC trouble: the tx may still land, keep it pending
+      else await record(sub.hash, { error: (e as Error).message });
+      throw e;
+    }
+  };
+
+  return {
+    list,
+
+    async track(sub, wait) {
+      try {
+        const submittedAt = (await get(sub.hash))?.submittedAt ?? Date.now();
+        await put({ ...sub, network, status: "pending", submittedAt });
+      } catch (e) {
+        onError?.(e as Error);
+        return wait(sub.hash);
+      }
+      return settle(sub, wait);
+    },
+
+    async resume(wait) {
+      const pending = await list({ status: "pending" });
+      await Promise.allSettled(pending.map((t) => settle(t, wait)));
+    },
+
+    async importLegacy(items) {
+      const toWad = (x: number) => BigInt(Math.round(x * 1e6)) * (WAD / 1_000_000n);
+      for (const t of items) {
+        if (await get(t.hash)) continue;
+        await put({
+          hash: t.hash,
+          kind: t.side,
+          // not recorded by the old history
+          from: "0x0000000000000000000000000000000000000000",
+          marketId: t.marketId,
+          outcome: t.outcome,
+          dQWad: t.qty === undefined ? undefined : toWad(t.qty),
+          quotedWad: t.costOrPayout === undefined ? undefined : toWad(t.costOrPayout),
+          network,
+          status: "confirmed",
+          submittedAt: t.ts,
+        });
+      }
+    },
+
+    async clear() {
+      const store = await objectStore("readwrite");
+      const keys = await done(store.index("network").getAllKeys(network));
+      await Promise.all(keys.map((k) => done(store.delete(k))));
+      onChange?.();
+    },
+  };
+}
@@ -4,4 +4,8 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // src/networks.ts bundles the Foundry deployment broadcasts
+    fs: { allow: [".", "../contracts/broadcast"] },
+  },
 })